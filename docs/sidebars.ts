@@ -31,6 +31,16 @@ const sidebars: SidebarsConfig = {
             id: 'json-config',
             label: 'JSON Configuration',
         },
+        {
+            type: 'doc',
+            id: 'compare',
+            label: 'Comparing Screenshots',
+        },
+        {
+            type: 'doc',
+            id: 'node-api',
+            label: 'Node API',
+        },
     ],
 
     // But you can create a sidebar manually
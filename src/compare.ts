@@ -0,0 +1,314 @@
+/* ===========================================================================
+    Compare screenshots against a baseline set of screenshots
+    Screenshots are paired by their file name, which is built by getUrlPath().
+    A diff image is generated for each pair where the changed pixels are
+    highlighted in red on top of a faded version of the current screenshot.
+=========================================================================== */
+
+import fs from 'fs-extra';
+import { globSync } from 'glob';
+import { dirname, extname, join, relative } from 'node:path';
+import sharp from 'sharp';
+
+// Library
+import { logError, logMessage, logSuccess, logWarning } from './lib/log.js';
+import { getElapsedTime, getStartTime } from './lib/time.js';
+import { isNumberOrNumberString, isStringWithValue } from './lib/types.js';
+import { type CompareParam, type CompareResult } from './types.js';
+
+// The image file extensions that can be compared
+const imageExtensions = ['avif', 'jpg', 'jpeg', 'png', 'webp'];
+
+// The default directory to save the diff images in
+const defaultDiffDir = 'diff';
+
+type RawImage = {
+    data: Buffer;
+    height: number;
+    width: number;
+};
+
+/**
+ * Parses a number option and makes sure that it's within the allowed range
+ *
+ * @param {number|string} value The value to parse
+ * @param {number} min The minimum allowed value
+ * @param {number} max The maximum allowed value
+ * @returns {number} The parsed value or the minimum value if the value is not valid
+ */
+const parseRange = (
+    value: number | string,
+    min: number,
+    max: number
+): number => {
+    let returnValue = min;
+    if (isNumberOrNumberString(value)) {
+        const number = parseFloat(value.toString());
+        if (number > min) {
+            returnValue = Math.min(number, max);
+        }
+    }
+    return returnValue;
+};
+
+/**
+ * Gets the relative paths of all the images within a directory
+ *
+ * @param {string} dir The directory to get the images from
+ * @param {string} diffDir The directory that the diff images are saved in. It's ignored if it's within the directory.
+ * @returns {string[]} The relative image paths
+ */
+const getImages = (dir: string, diffDir: string): string[] => {
+    const ignore = [];
+    const relativeDiffDir = relative(dir, diffDir);
+    if (relativeDiffDir.length > 0 && !relativeDiffDir.startsWith('..')) {
+        ignore.push(`${relativeDiffDir}/**`);
+    }
+    return globSync(`**/*.{${imageExtensions.join(',')}}`, {
+        cwd: dir,
+        ignore,
+        nodir: true,
+        posix: true,
+    }).sort();
+};
+
+/**
+ * Loads an image as raw RGBA pixel data and pads it to the given size.
+ *
+ * Padded pixels are transparent so that they are always treated as different
+ * from the pixels in an image that actually has content in that area.
+ *
+ * @param {string} path The path to the image
+ * @param {number} width The width to pad the image to
+ * @param {number} height The height to pad the image to
+ * @returns {Promise<RawImage>} The raw image data
+ */
+const loadPaddedImage = async (
+    path: string,
+    width: number,
+    height: number
+): Promise<RawImage> => {
+    const metadata = await sharp(path).metadata();
+    const { data } = await sharp(path)
+        .ensureAlpha()
+        .extend({
+            bottom: height - metadata.height,
+            right: width - metadata.width,
+            background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    return { data, height, width };
+};
+
+/**
+ * Compares two images and saves the diff image
+ *
+ * @param {string} name The relative path of the image that is used to pair the images
+ * @param {string} baselinePath The path to the baseline image
+ * @param {string} currentPath The path to the current image
+ * @param {string} diffPath The path to save the diff image at
+ * @param {number} threshold The maximum ratio of mismatched pixels
+ * @param {number} tolerance The maximum difference between two color channels
+ * @returns {Promise<CompareResult>} The comparison result
+ */
+const compareImages = async (
+    name: string,
+    baselinePath: string,
+    currentPath: string,
+    diffPath: string,
+    threshold: number,
+    tolerance: number
+): Promise<CompareResult> => {
+    const baselineMeta = await sharp(baselinePath).metadata();
+    const currentMeta = await sharp(currentPath).metadata();
+
+    // Images of different sizes are padded to the same size rather than failing.
+    // This is common with full page screenshots where the page height changed.
+    const width = Math.max(baselineMeta.width, currentMeta.width);
+    const height = Math.max(baselineMeta.height, currentMeta.height);
+    const baseline = await loadPaddedImage(baselinePath, width, height);
+    const current = await loadPaddedImage(currentPath, width, height);
+
+    const diff = Buffer.alloc(width * height * 4);
+    let mismatchedPixels = 0;
+    for (let index = 0; index < diff.length; index += 4) {
+        let delta = 0;
+        for (let channel = 0; channel < 4; channel += 1) {
+            delta = Math.max(
+                delta,
+                Math.abs(
+                    baseline.data[index + channel] -
+                        current.data[index + channel]
+                )
+            );
+        }
+        if (delta > tolerance) {
+            // Highlight the changed pixel
+            mismatchedPixels += 1;
+            diff[index] = 255;
+            diff[index + 1] = 0;
+            diff[index + 2] = 0;
+        } else {
+            // Show a faded grayscale version of the unchanged pixel so that the changes stand out
+            const gray =
+                0.299 * current.data[index] +
+                0.587 * current.data[index + 1] +
+                0.114 * current.data[index + 2];
+            const faded = Math.round(255 - (255 - gray) * 0.25);
+            diff[index] = faded;
+            diff[index + 1] = faded;
+            diff[index + 2] = faded;
+        }
+        diff[index + 3] = 255;
+    }
+
+    fs.ensureDirSync(dirname(diffPath));
+    await sharp(diff, { raw: { width, height, channels: 4 } })
+        .png()
+        .toFile(diffPath);
+
+    const mismatchRatio = mismatchedPixels / (width * height);
+    return {
+        baselinePath,
+        currentPath,
+        diffPath,
+        height,
+        mismatchRatio,
+        mismatchedPixels,
+        missing: false,
+        name,
+        passed: mismatchRatio <= threshold,
+        sizeMismatch:
+            baselineMeta.width !== currentMeta.width ||
+            baselineMeta.height !== currentMeta.height,
+        width,
+    };
+};
+
+/**
+ * Compares the screenshots in the current directory against the screenshots in the baseline directory
+ *
+ * @param {string} baselineDir The directory that holds the baseline screenshots
+ * @param {string} currentDir The directory that holds the current screenshots
+ * @param {CompareParam} [options] The comparison options
+ * @returns {Promise<CompareResult[]>} The comparison results for each baseline screenshot. A baseline screenshot without a current screenshot fails.
+ */
+export const compareScreenshots = async (
+    baselineDir: string,
+    currentDir: string,
+    options: CompareParam = {}
+): Promise<CompareResult[]> => {
+    if (!fs.existsSync(baselineDir)) {
+        throw new Error(
+            `The baseline directory "${baselineDir}" does not exist`
+        );
+    }
+    if (!fs.existsSync(currentDir)) {
+        throw new Error(`The current directory "${currentDir}" does not exist`);
+    }
+    const diffDir = isStringWithValue(options.diffDir)
+        ? options.diffDir.replace(/\/$/, '')
+        : defaultDiffDir;
+    const threshold = parseRange(options.threshold, 0, 1);
+    const tolerance = parseRange(options.tolerance, 0, 255);
+
+    const baselineImages = getImages(baselineDir, diffDir);
+    const currentImages = getImages(currentDir, diffDir);
+    currentImages
+        .filter((name) => !baselineImages.includes(name))
+        .forEach((name) => {
+            logWarning(`${name} does not have a baseline screenshot`);
+        });
+
+    const results: CompareResult[] = [];
+    for (const name of baselineImages) {
+        if (currentImages.includes(name)) {
+            // Diff images are always saved as png images
+            const diffPath = join(
+                diffDir,
+                `${name.slice(0, -extname(name).length)}.png`
+            );
+            // eslint-disable-next-line no-await-in-loop -- Compare one pair at a time to limit the memory used by the raw image data
+            const result = await compareImages(
+                name,
+                join(baselineDir, name),
+                join(currentDir, name),
+                diffPath,
+                threshold,
+                tolerance
+            );
+            results.push(result);
+        } else {
+            // A missing screenshot fails so that a page that couldn't be captured doesn't pass the comparison
+            // eslint-disable-next-line no-await-in-loop -- Compare one pair at a time to limit the memory used by the raw image data
+            const metadata = await sharp(join(baselineDir, name)).metadata();
+            results.push({
+                baselinePath: join(baselineDir, name),
+                currentPath: join(currentDir, name),
+                diffPath: '',
+                height: metadata.height,
+                mismatchRatio: 1,
+                mismatchedPixels: metadata.width * metadata.height,
+                missing: true,
+                name,
+                passed: false,
+                sizeMismatch: false,
+                width: metadata.width,
+            });
+        }
+    }
+    return results;
+};
+
+/**
+ * Entry point for comparing the screenshots from the command line
+ *
+ * @param {string} baselineDir The directory that holds the baseline screenshots
+ * @param {string} currentDir The directory that holds the current screenshots
+ * @param {CompareParam} options The comparison options. These come from the command line arguments.
+ * @returns {Promise<boolean>} Whether or not all of the screenshots are within the threshold
+ */
+const compareHandler = async (
+    baselineDir: string,
+    currentDir: string,
+    options: CompareParam
+): Promise<boolean> => {
+    const startTime = getStartTime();
+    let passed = true;
+    try {
+        const results = await compareScreenshots(
+            baselineDir,
+            currentDir,
+            options
+        );
+        results.forEach((result) => {
+            const message = `${(result.mismatchRatio * 100).toFixed(2)}% different${result.sizeMismatch ? ', sizes differ' : ''}`;
+            if (result.missing) {
+                passed = false;
+                logError(`${result.name} does not have a current screenshot`);
+            } else if (result.passed) {
+                logSuccess(result.name, message);
+            } else {
+                passed = false;
+                logError(`${result.name} ${message}. Diff: ${result.diffPath}`);
+            }
+        });
+        const missing = results.filter((result) => result.missing).length;
+        const failed = results.filter(
+            (result) => !result.passed && !result.missing
+        ).length;
+        const compared = `Compared ${results.length} screenshot${results.length === 1 ? '' : 's'}`;
+        logMessage(
+            `${compared}. ${failed} exceeded the threshold. ${missing} did not have a current screenshot.`
+        );
+    } catch (err) {
+        logError('Error while comparing the screenshots', err);
+        passed = false;
+    }
+    const time = getElapsedTime(startTime);
+    logMessage(`Total time to compare screenshots: ${time}s`);
+    return passed;
+};
+
+export default compareHandler;
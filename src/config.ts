@@ -2,10 +2,20 @@
     Configuration for the page-shots package
 =========================================================================== */
 
+import fs from 'fs-extra';
 import { extname } from 'path';
-import { type ImageFormat, type PuppeteerLifeCycleEvent } from 'puppeteer';
+import {
+    type CookieParam,
+    type LowerCasePaperFormat,
+    type PuppeteerLifeCycleEvent,
+} from 'puppeteer';
 
 // Library
+import { actionTypes } from './lib/actions.js';
+import { getDevice, getDeviceName } from './lib/device.js';
+import replaceEnvVariables from './lib/env.js';
+import { logError, logMessage } from './lib/log.js';
+import { resourceTypes } from './lib/requests.js';
 import {
     objectValueIsNumberOrNumberString,
     objectValueIsStringWithValue,
@@ -14,59 +24,171 @@ import {
     BoolLike,
     isBoolLike,
     isDefined,
+    isFalseLike,
+    isNumber,
     isNumberOrNumberString,
+    isObject,
     isObjectWithValues,
     isStringWithValue,
     isTrueLike,
 } from './lib/types.js';
+import { getNetworkConditions, getNetworkPresets } from './lib/network.js';
+import { getSitemapUrls } from './lib/sitemap.js';
 
 import {
+    type Action,
+    type BlockRequests,
     type Clip,
     type Config,
     type ConfigParam,
+    type Crawl,
+    type FileType,
+    type Geolocation,
+    type LoginConfig,
+    type Optimize,
+    type RewriteRequest,
     type SizeConfig,
     type SizeParam,
+    type SitemapConfig,
+    type SitemapParam,
     type SizeParamObject,
+    type Thumbnail,
+    type ThumbnailParam,
     type UrlConfig,
     type UrlParam,
     type UrlParamObject,
+    type WaitFor,
 } from './types.js';
 
 // Default configuration
 export const defaultConfig: Config = {
+    // The actions to run in order before the screenshot is taken
+    actions: [],
     // The base URL to prepend to each URL if necessary
     baseUrl: '',
+    // Whether or not to block ads and cookie notices. It's set up for the browser so it applies to all of the screenshots.
+    blockAdsAndCookieNotices: true,
+    // The requests to block, or false to not block any requests
+    blockRequests: false,
+    // The number of milliseconds after the page starts loading to take screenshots at
+    captureAt: [],
     // Holds an object which specifies clipping region of the page.
     clip: false,
+    // The color scheme to emulate, or false to use the default color scheme of the browser
+    colorScheme: false,
+    // The maximum number of screenshots to take at the same time
+    concurrency: 10,
+    // The cookies to set before loading the page
+    cookies: [],
+    // How many times slower the CPU should be. 1 doesn't slow it down.
+    cpuThrottle: 1,
+    // Holds the crawl settings if the same origin links on each page should be crawled
+    crawl: false,
     // The number of milliseconds to delay after loading before taking a picture of the page
     delay: 0,
+    // The name of the Puppeteer device to emulate
+    device: '',
     // The device scale factor to use for the screenshot. Puppeteer default is 1.
     deviceScaleFactor: 1,
     // The directory that screenshots are saved in
     dir: '',
+    // Whether or not to stop animations so that each screenshot is the same
+    disableAnimations: false,
+    // When the command line should exit with an error code because screenshots failed
+    failOnError: 'any',
     // The file name to save the screenshots as.
     // This is only used if a specific file name is set in the configuration or the CLI arguments
     // and the name doesn't include {} placeholders.
     fileName: '',
     // The file type to save the screenshots as
     fileType: 'jpeg',
+    // The number of milliseconds since the epoch that Date.now() returns in the page, or false to use the real time
+    fixedTime: false,
+    // The forced colors value to emulate, or false to not emulate it
+    forcedColors: false,
     // Holds whether or not the screenshot should be full page
     fullScreen: true,
+    // The geolocation to emulate, or false to not emulate it
+    geolocation: false,
+    // The HAR file to record the responses to or to replay them from, or false to not use a HAR file
+    har: false,
+    // Extra HTTP headers to send with every request
+    headers: {},
     // Holds the viewport height to get the screenshot in
     height: 900,
+    // The HTTP authentication username and password
+    httpAuth: false,
+    // The CSS to add to the page after it loads
+    injectCss: [],
+    // The JavaScript to run in the page after it loads
+    injectScript: [],
+    // The locale to request the page in. If it's not set then the default language of the browser is used.
+    locale: '',
+    // The login flow to run before taking screenshots of protected pages
+    login: false,
+    // Whether or not to write a manifest.json file in the directory that describes each screenshot
+    manifest: true,
+    // The CSS color of the boxes that cover the masked elements
+    maskColor: '#ff00ff',
+    // The CSS selectors of the elements to cover with a solid box before the screenshot is taken
+    maskSelector: [],
+    // The CSS media type to emulate, or false to use the default media type
+    media: false,
     // The format to generate the file name from
     nameFormat: '{urlNoWww}-{width}',
+    // The network speed to emulate, or false to not slow down the network
+    network: false,
+    // The settings to optimize the images after they are saved, or false to not optimize them
+    optimize: false,
+    // The settings for saving the page as a PDF
+    pdf: {
+        format: 'letter',
+        landscape: false,
+        margin: { bottom: 0, left: 0, right: 0, top: 0 },
+        media: 'print',
+        printBackground: true,
+    },
     // The image quality if the screenshot is a jpg
     quality: 100,
+    // The reduced motion preference to emulate, or false to not emulate it
+    reducedMotion: false,
+    // Whether or not to save an index.html report in the directory that shows each screenshot
+    report: false,
+    // The rules to send requests to a different URL
+    rewriteRequests: [],
+    // The number of times to retry a screenshot that failed or timed out
+    retries: 0,
     // The number of milliseconds to delay after each scroll to allow the content to load.
     // This is used to allow time for lazy loading of images or animations that are triggered by the scroll to complete.
     scrollDelay: 400,
+    // The CSS selectors of the elements to take screenshots of instead of the page
+    selector: [],
+    // The number of pixels of padding to include around each element screenshot
+    selectorPadding: 0,
     // Holds one or more viewport sizes to get the screenshot in
     sizes: [],
-    // This determines the maximum pixel height of the screenshot that can be taken natively before falling back to stitching screenshots together. It's based on the maximum texture size supported by Chromium's software GL backend. Visit https://webglreport.com/ in Chrome and check the 'Max Texture Size' value to see the maximum texture size supported by the browser.
+    // This determines the maximum pixel height of the screenshot that can be taken natively before falling back to stitching screenshots together.
+    // It's based on the maximum texture size supported by Chromium's software GL backend.
+    // Visit https://webglreport.com/ in Chrome and check the 'Max Texture Size' value to see the maximum texture size supported by the browser.
     stitchThreshold: 16000,
+    // The smaller copies of the screenshot to save
+    thumbnails: [],
+    // The maximum number of milliseconds to wait for the page to load and for the screenshot to be taken
+    timeout: 60000,
+    // The IANA time zone to emulate. If it's not set then the time zone of the computer is used.
+    timezone: '',
     // The list of URLs to get screenshots for
     urls: [],
+    // Whether or not to wait for the web fonts to load
+    waitForFonts: false,
+    // The JavaScript expression to wait for to return a truthy value
+    waitForFunction: false,
+    // Whether or not to wait for all images to load, including lazy loaded images
+    waitForImages: false,
+    // Whether or not to wait until there are no network connections
+    waitForNetworkIdle: false,
+    // The CSS selector of an element to wait for
+    waitForSelector: false,
     // The wait until value to use for the page
     waitUntil: 'load',
     // Holds the viewport width to get the screenshot in
@@ -76,6 +198,44 @@ export const defaultConfig: Config = {
 // Maximum delay in milliseconds
 export const maxDelay = 30000;
 
+// The default number of milliseconds without network connections for the network to be idle
+const defaultIdleTime = 500;
+
+// Default image optimization settings
+export const defaultOptimize: Optimize = {
+    avif: { effort: 4, lossless: false },
+    jpeg: { mozjpeg: true },
+    maxDimension: 0,
+    png: { compressionLevel: 9, palette: false },
+    stripMetadata: true,
+    webp: { effort: 4, lossless: false },
+};
+
+// The paper formats that a PDF can be saved in
+const pdfFormats: LowerCasePaperFormat[] = [
+    'letter',
+    'legal',
+    'tabloid',
+    'ledger',
+    'a0',
+    'a1',
+    'a2',
+    'a3',
+    'a4',
+    'a5',
+    'a6',
+];
+
+// Default crawl settings
+const defaultCrawl: Crawl = {
+    // The maximum link depth to crawl from the starting URLs
+    depth: 3,
+    // The query string parameters to ignore when comparing URLs
+    ignoreParams: [],
+    // The maximum number of pages to get screenshots of
+    limit: 100,
+};
+
 /**
  * Processes the height or width value
  *
@@ -93,21 +253,153 @@ const processHeightWidth = (value: string | number): number => {
     return returnValue;
 };
 
+/**
+ * Processes a value that can be a string or an array of strings
+ *
+ * @param {string|string[]} value The value to process
+ * @returns {string[]} The strings that have a value
+ */
+const processStringArray = (value: string | string[]): string[] => {
+    let returnValue: string[] = [];
+    if (isStringWithValue(value)) {
+        returnValue = [value];
+    } else if (Array.isArray(value)) {
+        returnValue = value.filter((item) => isStringWithValue(item));
+    }
+    return returnValue;
+};
+
+/**
+ * Processes the CSS or JavaScript to inject into the page.
+ * Each value can be the code or the path to a file with the extension.
+ *
+ * @param {string|string[]} value The code or file paths
+ * @param {string} extension The file extension that marks a value as a file path
+ * @returns {string[]} The code to inject
+ */
+const processInjectValue = (
+    value: string | string[],
+    extension: string
+): string[] => {
+    const returnValue: string[] = [];
+    processStringArray(value).forEach((item) => {
+        const file = item.trim();
+        // Code can have line breaks, braces, or semicolons. A file path won't.
+        if (
+            !/[\n{};]/.test(file) &&
+            extname(file).toLowerCase() === extension
+        ) {
+            try {
+                returnValue.push(fs.readFileSync(file, 'utf8'));
+            } catch (err) {
+                logError(`Unable to read the file "${file}"`, err);
+            }
+        } else {
+            returnValue.push(item);
+        }
+    });
+    return returnValue;
+};
+
+/**
+ * Processes the timeout value for a wait for condition
+ *
+ * @param {number|string} timeout The timeout value
+ * @returns {WaitFor} The wait for condition
+ */
+const processWaitForTimeout = (timeout: number | string): WaitFor => {
+    const waitFor: WaitFor = {};
+    if (isNumberOrNumberString(timeout)) {
+        const value = parseInt(timeout.toString(), 10);
+        if (value > 0) {
+            waitFor.timeout = value;
+        }
+    }
+    return waitFor;
+};
+
+/**
+ * Processes a wait for value that can be true, the number of milliseconds to wait,
+ * or an object with a "timeout" value
+ *
+ * @param {any} value The wait for value
+ * @returns {false|WaitFor|null} The wait for condition, false to not wait, or null if the value is not valid
+ */
+const processWaitFor = (
+    value: BoolLike | number | string | { timeout?: number | string }
+): false | WaitFor | null => {
+    let returnValue: false | WaitFor | null = null;
+    if (isFalseLike(value)) {
+        returnValue = false;
+    } else if (isTrueLike(value)) {
+        returnValue = {};
+    } else if (isNumberOrNumberString(value)) {
+        returnValue = processWaitForTimeout(value);
+    } else if (isObject<{ timeout?: number | string }>(value)) {
+        returnValue = processWaitForTimeout(value.timeout);
+    }
+    return returnValue;
+};
+
+/**
+ * Processes a whole number value that must be within a range
+ *
+ * @param {number|string} value The value to process
+ * @param {number} min The minimum allowed value
+ * @param {number} max The maximum allowed value
+ * @returns {number|null} The number, or null if the value is not valid
+ */
+const processNumberInRange = (
+    value: number | string,
+    min: number,
+    max: number
+): number | null => {
+    let returnValue: number | null = null;
+    if (isNumberOrNumberString(value)) {
+        const number = parseInt(value.toString(), 10);
+        if (number >= min && number <= max) {
+            returnValue = number;
+        }
+    }
+    return returnValue;
+};
+
+/**
+ * Processes an aspect ratio value, like "16:9", "16/9", or 1.5
+ *
+ * @param {number|string} value The value to process
+ * @returns {number|false} The width divided by the height, or false if the value is not valid
+ */
+const processAspectRatio = (value: number | string): number | false => {
+    let returnValue = NaN;
+    const match = isStringWithValue(value)
+        ? value.trim().match(/^(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)$/)
+        : null;
+    if (match) {
+        returnValue = parseFloat(match[1]) / parseFloat(match[2]);
+    } else if (isNumberOrNumberString(value)) {
+        returnValue = parseFloat(value.toString());
+    }
+    return returnValue > 0 && Number.isFinite(returnValue)
+        ? returnValue
+        : false;
+};
+
 /**
  * Validates that the file type is allowed
  *
  * @param {string} type The file type
- * @returns {ImageFormat|boolean} The valid file type or false if the type is not valid
+ * @returns {FileType|boolean} The valid file type or false if the type is not valid
  */
-const validateFileType = (type: string): ImageFormat | false => {
-    let returnVal: ImageFormat | false = false;
+const validateFileType = (type: string): FileType | false => {
+    let returnVal: FileType | false = false;
     if (isStringWithValue(type)) {
         let fileType = type.toLowerCase().replace('.', '');
-        if (['jpg', 'jpeg', 'png', 'webp'].includes(fileType)) {
+        if (['avif', 'jpg', 'jpeg', 'pdf', 'png', 'webp'].includes(fileType)) {
             if (fileType === 'jpg') {
                 fileType = 'jpeg';
             }
-            returnVal = fileType as ImageFormat;
+            returnVal = fileType as FileType;
         }
     }
     return returnVal;
@@ -153,6 +445,15 @@ export class ConfigParser {
      */
     processUrls: boolean;
 
+    /**
+     * Holds the sitemaps to get the URLs from.
+     *
+     * The sitemaps are loaded separately with loadSitemapUrls() because they have to be fetched.
+     *
+     * @type {SitemapConfig[]}
+     */
+    sitemaps: SitemapConfig[];
+
     /**
      * Constructor
      *
@@ -178,6 +479,7 @@ export class ConfigParser {
         this.processFile = false;
         this.processSizes = true;
         this.processUrls = true;
+        this.sitemaps = [];
     }
 
     /**
@@ -210,31 +512,103 @@ export class ConfigParser {
         if (isObjectWithValues(data)) {
             // Parse the configuration data
             this.configParam = data;
+            this.#setActions();
             this.#setBaseUrl();
+            this.#setBlockAdsAndCookieNotices();
+            this.#setBlockRequests();
+            this.#setCaptureAt();
             this.#setClip();
+            this.#setColorScheme();
+            this.#setConcurrency();
+            this.#setCookies();
+            this.#setCpuThrottle();
+            this.#setCrawl();
             this.#setDelay();
+            // The device is set before the viewport values so that they can override the device viewport
+            this.#setDevice();
             this.#setDeviceScaleFactor();
             this.#setDir();
+            this.#setDisableAnimations();
+            this.#setFailOnError();
             this.#setFileName();
             this.#setFileType();
+            this.#setFixedTime();
+            this.#setForcedColors();
             this.#setFullScreen();
+            this.#setGeolocation();
+            this.#setHar();
+            this.#setHeaders();
             this.#setHeight();
             this.#setHideElement();
             this.#setHideStitchElement();
+            this.#setHttpAuth();
+            this.#setInjectCss();
+            this.#setInjectScript();
+            this.#setLocale();
+            this.#setLogin();
+            this.#setManifest();
+            this.#setMaskColor();
+            this.#setMaskSelector();
+            this.#setNetwork();
+            this.#setMedia();
+            this.#setOptimize();
+            this.#setPdf();
             this.#setQuality();
+            this.#setReducedMotion();
+            this.#setReport();
+            this.#setRetries();
+            this.#setRewriteRequests();
             this.#setScrollDelay();
+            this.#setSelector();
+            this.#setSelectorPadding();
             this.#setStitchThreshold();
+            this.#setThumbnails();
+            this.#setTimeout();
+            this.#setTimezone();
             if (this.processUrls) {
                 this.#setUrls();
+                this.#setSitemaps();
             }
             if (this.processSizes) {
                 this.#setViewportSizes();
             }
+            this.#setWaitForFonts();
+            this.#setWaitForFunction();
+            this.#setWaitForImages();
+            this.#setWaitForNetworkIdle();
+            this.#setWaitForSelector();
             this.#setWaitUntil();
             this.#setWidth();
         }
     }
 
+    /**
+     * Parse a viewport size on top of the URL configuration
+     *
+     * A device from the configuration is only emulated for the sizes that don't set their own width and height.
+     * For the other sizes the pixel ratio of the device is reset unless the size sets its own pixel ratio.
+     *
+     * @param {SizeParamObject} size The viewport size to parse
+     */
+    parseSize(size: SizeParamObject) {
+        if (
+            isStringWithValue(size?.device) ||
+            !objectValueIsNumberOrNumberString(size, 'width') ||
+            !objectValueIsNumberOrNumberString(size, 'height')
+        ) {
+            this.parse(size);
+        } else {
+            if (
+                isStringWithValue(this.config.device) &&
+                this.config.deviceScaleFactor ===
+                    getDevice(this.config.device).viewport.deviceScaleFactor
+            ) {
+                this.config.deviceScaleFactor = defaultConfig.deviceScaleFactor;
+            }
+            this.parse({ ...size, device: false });
+        }
+    }
+
     /**
      * Get the configuration
      *
@@ -244,6 +618,41 @@ export class ConfigParser {
         return this.config;
     }
 
+    /**
+     * Loads the URLs from the sitemaps and adds them to the URLs to get screenshots for.
+     *
+     * URLs that are already set are not added again.
+     *
+     * @returns {Promise<void>}
+     */
+    async loadSitemapUrls(): Promise<void> {
+        for (const sitemap of this.sitemaps) {
+            try {
+                // eslint-disable-next-line no-await-in-loop -- Process the sitemaps one at a time to avoid flooding the server with requests
+                const urls = await getSitemapUrls(sitemap);
+                logMessage(
+                    `Found ${urls.length} URL${urls.length === 1 ? '' : 's'} in the sitemap`,
+                    sitemap.url
+                );
+                for (const url of urls) {
+                    if (
+                        !this.config.urls.some(
+                            (configUrl) => configUrl.url === url
+                        )
+                    ) {
+                        this.#configureUrl(url);
+                    }
+                }
+            } catch (err) {
+                logError(
+                    `Error while getting the URLs from the sitemap ${sitemap.url}`,
+                    err
+                );
+            }
+        }
+        this.sitemaps = [];
+    }
+
     /**
      * Checks if the configuration has URLs
      *
@@ -253,6 +662,61 @@ export class ConfigParser {
         return this.config.urls.length > 0;
     }
 
+    /**
+     * Set the actions to run in order before the screenshot is taken
+     *
+     * An action that is missing a required value is not used.
+     * Environment variable references like ${SEARCH_TERM} in the "type" action text are replaced.
+     */
+    #setActions() {
+        const actions = this.configParam?.actions;
+        if (isFalseLike(actions)) {
+            this.config.actions = [];
+        } else if (Array.isArray(actions)) {
+            this.config.actions = [];
+            actions.forEach((action, index) => {
+                if (
+                    !objectValueIsStringWithValue(action, 'action') ||
+                    !isDefined(actionTypes[action.action])
+                ) {
+                    logError(
+                        `The action at index ${index} does not have a valid "action" value. Use one of: ${Object.keys(actionTypes).join(', ')}`
+                    );
+                    return;
+                }
+                const missing = actionTypes[action.action].filter(
+                    (key) => !objectValueIsStringWithValue(action, key)
+                );
+                if (
+                    action.action === 'scrollTo' &&
+                    !objectValueIsStringWithValue(action, 'selector') &&
+                    !objectValueIsNumberOrNumberString(action, 'y')
+                ) {
+                    missing.push('selector or y');
+                }
+                if (missing.length > 0) {
+                    logError(
+                        `The ${action.action} action at index ${index} is missing the ${missing.join(', ')} value`
+                    );
+                    return;
+                }
+                const actionConfig: Action = { action: action.action };
+                ['key', 'name', 'script', 'selector'].forEach((key) => {
+                    if (objectValueIsStringWithValue(action, key)) {
+                        actionConfig[key] = action[key];
+                    }
+                });
+                if (isStringWithValue(action.text)) {
+                    actionConfig.text = replaceEnvVariables(action.text);
+                }
+                if (isNumberOrNumberString(action.y)) {
+                    actionConfig.y = parseInt(action.y.toString(), 10);
+                }
+                this.config.actions.push(actionConfig);
+            });
+        }
+    }
+
     /**
      * Set the base URL value
      *
@@ -266,6 +730,88 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Set whether or not to block ads and cookie notices
+     */
+    #setBlockAdsAndCookieNotices() {
+        if (isBoolLike(this.configParam?.blockAdsAndCookieNotices)) {
+            this.config.blockAdsAndCookieNotices = isTrueLike(
+                this.configParam.blockAdsAndCookieNotices
+            );
+        }
+    }
+
+    /**
+     * Sets the requests to block
+     *
+     * Each value is a resource type, like "font" or "media", "third-party" to block the requests to other sites,
+     * or a glob or regular expression URL pattern.
+     */
+    #setBlockRequests() {
+        const blockRequestsParam = this.configParam?.blockRequests;
+        if (isFalseLike(blockRequestsParam)) {
+            this.config.blockRequests = false;
+        } else if (
+            isStringWithValue(blockRequestsParam) ||
+            Array.isArray(blockRequestsParam)
+        ) {
+            const blockRequests: BlockRequests = {
+                patterns: [],
+                resourceTypes: [],
+                thirdParty: false,
+            };
+            processStringArray(blockRequestsParam).forEach((value) => {
+                const resourceType = resourceTypes.find(
+                    (type) => type === value.toLowerCase()
+                );
+                if (value.toLowerCase() === 'third-party') {
+                    blockRequests.thirdParty = true;
+                } else if (resourceType) {
+                    blockRequests.resourceTypes.push(resourceType);
+                } else {
+                    blockRequests.patterns.push(value);
+                }
+            });
+            this.config.blockRequests =
+                blockRequests.patterns.length > 0 ||
+                blockRequests.resourceTypes.length > 0 ||
+                blockRequests.thirdParty
+                    ? blockRequests
+                    : false;
+        }
+    }
+
+    /**
+     * Sets the number of milliseconds after the page starts loading to take screenshots at
+     */
+    #setCaptureAt() {
+        const captureAt = this.configParam?.captureAt;
+        if (isFalseLike(captureAt)) {
+            this.config.captureAt = [];
+        } else if (isDefined(captureAt)) {
+            const times: number[] = [];
+            (Array.isArray(captureAt)
+                ? captureAt
+                : [captureAt as number | string]
+            ).forEach((value) => {
+                const time = processNumberInRange(
+                    value,
+                    0,
+                    Number.MAX_SAFE_INTEGER
+                );
+                if (time === null) {
+                    logError(
+                        `The captureAt value "${value}" is not valid. Use the number of milliseconds after the page starts loading.`
+                    );
+                } else {
+                    times.push(time);
+                }
+            });
+            // The screenshots are taken in order
+            this.config.captureAt = [...new Set(times)].sort((a, b) => a - b);
+        }
+    }
+
     /**
      * Set the clip data
      */
@@ -310,6 +856,147 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Set the crawl settings
+     *
+     * Crawling can be turned on with "crawl": true or with an object containing the crawl settings.
+     * The crawl settings can also be set with the "crawlDepth", "crawlIgnoreParams", and "crawlLimit" values.
+     */
+    #setCrawl() {
+        if (isFalseLike(this.configParam?.crawl)) {
+            this.config.crawl = false;
+        } else if (
+            isTrueLike(this.configParam?.crawl) ||
+            isObject(this.configParam?.crawl) ||
+            this.config.crawl
+        ) {
+            const crawl: Crawl = this.config.crawl
+                ? structuredClone(this.config.crawl)
+                : structuredClone(defaultCrawl);
+            const crawlParam = isObject(this.configParam?.crawl)
+                ? this.configParam.crawl
+                : {};
+            const depth = crawlParam.depth ?? this.configParam?.crawlDepth;
+            if (isNumberOrNumberString(depth)) {
+                const crawlDepth = parseInt(depth.toString(), 10);
+                if (crawlDepth >= 0) {
+                    crawl.depth = crawlDepth;
+                }
+            }
+            const limit = crawlParam.limit ?? this.configParam?.crawlLimit;
+            if (isNumberOrNumberString(limit)) {
+                const crawlLimit = parseInt(limit.toString(), 10);
+                if (crawlLimit > 0) {
+                    crawl.limit = crawlLimit;
+                }
+            }
+            const ignoreParams =
+                crawlParam.ignoreParams ?? this.configParam?.crawlIgnoreParams;
+            if (isDefined(ignoreParams)) {
+                crawl.ignoreParams = processStringArray(ignoreParams);
+            }
+            this.config.crawl = crawl;
+        }
+    }
+
+    /**
+     * Sets the color scheme to emulate
+     */
+    #setColorScheme() {
+        const colorScheme = this.configParam?.colorScheme;
+        if (isFalseLike(colorScheme)) {
+            this.config.colorScheme = false;
+        } else if (isStringWithValue(colorScheme)) {
+            const scheme = colorScheme.toLowerCase();
+            if (scheme === 'both' || scheme === 'dark' || scheme === 'light') {
+                this.config.colorScheme = scheme;
+            } else {
+                logError(
+                    `The colorScheme value "${colorScheme}" is not valid. Use "light", "dark", or "both".`
+                );
+            }
+        }
+    }
+
+    /**
+     * Set the maximum number of screenshots to take at the same time
+     */
+    #setConcurrency() {
+        if (isNumberOrNumberString(this.configParam?.concurrency)) {
+            const concurrency = parseInt(
+                this.configParam.concurrency.toString(),
+                10
+            );
+            if (concurrency > 0) {
+                this.config.concurrency = concurrency;
+            }
+        }
+    }
+
+    /**
+     * Set the cookies to set before loading the page
+     *
+     * The cookies can be an array of cookie objects or the path to a JSON file.
+     * The JSON file can hold an array of cookies or an object with a "cookies" array, like a Playwright storage state file.
+     * Environment variable references like ${SESSION_ID} in the cookie values are replaced.
+     */
+    #setCookies() {
+        const cookiesParam = this.configParam?.cookies;
+        let cookies: CookieParam[] | false = false;
+        if (isFalseLike(cookiesParam)) {
+            cookies = [];
+        } else if (Array.isArray(cookiesParam)) {
+            cookies = cookiesParam;
+        } else if (isStringWithValue(cookiesParam)) {
+            const file = replaceEnvVariables(cookiesParam);
+            try {
+                const contents = fs.readJsonSync(file);
+                if (Array.isArray(contents)) {
+                    cookies = contents;
+                } else if (Array.isArray(contents?.cookies)) {
+                    cookies = contents.cookies;
+                } else {
+                    logError(
+                        `The cookies file "${file}" does not contain an array of cookies`
+                    );
+                }
+            } catch (err) {
+                logError(`Unable to read the cookies file "${file}"`, err);
+            }
+        }
+        if (cookies) {
+            this.config.cookies = cookies
+                .filter(
+                    (cookie) =>
+                        objectValueIsStringWithValue(cookie, 'name') &&
+                        isDefined(cookie.value)
+                )
+                .map((cookie) => ({
+                    ...cookie,
+                    value: replaceEnvVariables(cookie.value.toString()),
+                }));
+        }
+    }
+
+    /**
+     * Sets how many times slower the CPU should be
+     */
+    #setCpuThrottle() {
+        const cpuThrottle = this.configParam?.cpuThrottle;
+        if (isFalseLike(cpuThrottle)) {
+            this.config.cpuThrottle = 1;
+        } else if (isNumberOrNumberString(cpuThrottle)) {
+            const rate = parseFloat(cpuThrottle.toString());
+            if (rate >= 1) {
+                this.config.cpuThrottle = rate;
+            } else {
+                logError(
+                    `The cpuThrottle value "${cpuThrottle}" is not valid. Use 1 or more, like 4 for four times slower.`
+                );
+            }
+        }
+    }
+
     /**
      * Set the delay value
      *
@@ -326,6 +1013,30 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Set the device to emulate
+     *
+     * The viewport size and device scale factor are set from the device.
+     */
+    #setDevice() {
+        if (isFalseLike(this.configParam?.device)) {
+            this.config.device = '';
+        } else if (isStringWithValue(this.configParam?.device)) {
+            const deviceName = getDeviceName(this.configParam.device);
+            if (deviceName) {
+                const { viewport } = getDevice(deviceName);
+                this.config.device = deviceName;
+                this.config.deviceScaleFactor = viewport.deviceScaleFactor;
+                this.config.height = viewport.height;
+                this.config.width = viewport.width;
+            } else {
+                logError(
+                    `The device "${this.configParam.device}" is not a known device`
+                );
+            }
+        }
+    }
+
     /**
      * Set the directory value
      *
@@ -336,6 +1047,27 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Set when the command line should exit with an error code because screenshots failed
+     */
+    #setFailOnError() {
+        const failOnError = this.configParam?.failOnError;
+        if (isTrueLike(failOnError)) {
+            this.config.failOnError = 'any';
+        } else if (isFalseLike(failOnError)) {
+            this.config.failOnError = 'never';
+        } else if (isStringWithValue(failOnError)) {
+            const policy = failOnError.toLowerCase();
+            if (policy === 'all' || policy === 'any' || policy === 'never') {
+                this.config.failOnError = policy;
+            } else {
+                logError(
+                    `The failOnError value "${failOnError}" is not valid. Use "any", "all", or "never".`
+                );
+            }
+        }
+    }
+
     /**
      * Sets the file name for the first URL or the name pattern to use for all URLs
      *
@@ -382,6 +1114,186 @@ export class ConfigParser {
         if (isTrueLike(this.configParam?.webp)) {
             this.config.fileType = 'webp';
         }
+        if (isTrueLike(this.configParam?.avif)) {
+            this.config.fileType = 'avif';
+        }
+        if (
+            isTrueLike(this.configParam?.pdf) ||
+            isObject(this.configParam?.pdf)
+        ) {
+            this.config.fileType = 'pdf';
+        }
+    }
+
+    /**
+     * Sets the settings to optimize the images after they are saved
+     *
+     * A URL or size inherits the settings that it doesn't set.
+     */
+    #setOptimize() {
+        const optimizeParam = this.configParam?.optimize;
+        if (isFalseLike(optimizeParam)) {
+            this.config.optimize = false;
+        } else if (
+            isTrueLike(optimizeParam) ||
+            isObject(optimizeParam) ||
+            isDefined(this.configParam?.optimizeMaxDimension)
+        ) {
+            const optimize: Optimize = this.config.optimize
+                ? structuredClone(this.config.optimize)
+                : structuredClone(defaultOptimize);
+            const param = isObject(optimizeParam) ? optimizeParam : {};
+            const maxDimension = processNumberInRange(
+                param.maxDimension ?? this.configParam?.optimizeMaxDimension,
+                0,
+                Number.MAX_SAFE_INTEGER
+            );
+            if (maxDimension !== null) {
+                optimize.maxDimension = maxDimension;
+            }
+            if (isBoolLike(param.stripMetadata)) {
+                optimize.stripMetadata = isTrueLike(param.stripMetadata);
+            }
+            if (isObject(param.avif)) {
+                optimize.avif.effort =
+                    processNumberInRange(param.avif.effort, 0, 9) ??
+                    optimize.avif.effort;
+                if (isBoolLike(param.avif.lossless)) {
+                    optimize.avif.lossless = isTrueLike(param.avif.lossless);
+                }
+            }
+            if (isObject(param.jpeg) && isBoolLike(param.jpeg.mozjpeg)) {
+                optimize.jpeg.mozjpeg = isTrueLike(param.jpeg.mozjpeg);
+            }
+            if (isObject(param.png)) {
+                optimize.png.compressionLevel =
+                    processNumberInRange(param.png.compressionLevel, 0, 9) ??
+                    optimize.png.compressionLevel;
+                if (isBoolLike(param.png.palette)) {
+                    optimize.png.palette = isTrueLike(param.png.palette);
+                }
+            }
+            if (isObject(param.webp)) {
+                optimize.webp.effort =
+                    processNumberInRange(param.webp.effort, 0, 6) ??
+                    optimize.webp.effort;
+                if (isBoolLike(param.webp.lossless)) {
+                    optimize.webp.lossless = isTrueLike(param.webp.lossless);
+                }
+            }
+            this.config.optimize = optimize;
+        }
+    }
+
+    /**
+     * Sets the settings for saving the page as a PDF
+     *
+     * The settings can be set in a "pdf" object or with the "pdfFormat", "pdfLandscape",
+     * "pdfMargin", "pdfMedia", and "pdfPrintBackground" values.
+     */
+    #setPdf() {
+        const pdfParam = isObject(this.configParam?.pdf)
+            ? this.configParam.pdf
+            : {};
+        const format = pdfParam.format ?? this.configParam?.pdfFormat;
+        if (isStringWithValue(format)) {
+            const pdfFormat = format.toLowerCase() as LowerCasePaperFormat;
+            if (pdfFormats.includes(pdfFormat)) {
+                this.config.pdf.format = pdfFormat;
+            } else {
+                logError(
+                    `The PDF format "${format}" is not valid. Use one of ${pdfFormats.join(', ')}.`
+                );
+            }
+        }
+        const landscape = pdfParam.landscape ?? this.configParam?.pdfLandscape;
+        if (isBoolLike(landscape)) {
+            this.config.pdf.landscape = isTrueLike(landscape);
+        }
+        const margin = pdfParam.margin ?? this.configParam?.pdfMargin;
+        if (isStringWithValue(margin) || isNumber(margin)) {
+            this.config.pdf.margin = {
+                bottom: margin,
+                left: margin,
+                right: margin,
+                top: margin,
+            };
+        } else if (isObject(margin)) {
+            ['bottom', 'left', 'right', 'top'].forEach((side) => {
+                if (isStringWithValue(margin[side]) || isNumber(margin[side])) {
+                    this.config.pdf.margin[side] = margin[side];
+                }
+            });
+        }
+        const media = pdfParam.media ?? this.configParam?.pdfMedia;
+        if (isStringWithValue(media)) {
+            const pdfMedia = media.toLowerCase();
+            if (pdfMedia === 'print' || pdfMedia === 'screen') {
+                this.config.pdf.media = pdfMedia;
+            } else {
+                logError(
+                    `The PDF media "${media}" is not valid. Use "print" or "screen".`
+                );
+            }
+        }
+        const printBackground =
+            pdfParam.printBackground ?? this.configParam?.pdfPrintBackground;
+        if (isBoolLike(printBackground)) {
+            this.config.pdf.printBackground = isTrueLike(printBackground);
+        }
+    }
+
+    /**
+     * Sets whether or not to stop animations so that each screenshot is the same
+     */
+    #setDisableAnimations() {
+        if (isBoolLike(this.configParam?.disableAnimations)) {
+            this.config.disableAnimations = isTrueLike(
+                this.configParam.disableAnimations
+            );
+        }
+    }
+
+    /**
+     * Sets the time that Date.now() returns in the page
+     */
+    #setFixedTime() {
+        const fixedTime = this.configParam?.fixedTime;
+        if (isFalseLike(fixedTime)) {
+            this.config.fixedTime = false;
+        } else if (isNumberOrNumberString(fixedTime)) {
+            this.config.fixedTime = Number(fixedTime);
+        } else if (isStringWithValue(fixedTime)) {
+            const time = Date.parse(fixedTime);
+            if (Number.isNaN(time)) {
+                logError(
+                    `The fixedTime value "${fixedTime}" is not a valid date`
+                );
+            } else {
+                this.config.fixedTime = time;
+            }
+        }
+    }
+
+    /**
+     * Sets the forced colors value to emulate
+     */
+    #setForcedColors() {
+        const forcedColors = this.configParam?.forcedColors;
+        if (isTrueLike(forcedColors)) {
+            this.config.forcedColors = 'active';
+        } else if (isFalseLike(forcedColors)) {
+            this.config.forcedColors = false;
+        } else if (isStringWithValue(forcedColors)) {
+            const value = forcedColors.toLowerCase();
+            if (value === 'active' || value === 'none') {
+                this.config.forcedColors = value;
+            } else {
+                logError(
+                    `The forcedColors value "${forcedColors}" is not valid. Use "active" or "none".`
+                );
+            }
+        }
     }
 
     /**
@@ -419,6 +1331,142 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets the geolocation to emulate
+     *
+     * It can be an object with latitude, longitude, and accuracy values, or a "latitude,longitude" string.
+     */
+    #setGeolocation() {
+        const geolocationParam = this.configParam?.geolocation;
+        if (isFalseLike(geolocationParam)) {
+            this.config.geolocation = false;
+        } else if (
+            isObject(geolocationParam) ||
+            isStringWithValue(geolocationParam)
+        ) {
+            const [latitude, longitude] = isObject(geolocationParam)
+                ? [geolocationParam.latitude, geolocationParam.longitude]
+                : geolocationParam.split(',');
+            const geolocation: Geolocation = {
+                accuracy: 0,
+                latitude: parseFloat(latitude?.toString()),
+                longitude: parseFloat(longitude?.toString()),
+            };
+            if (isObject(geolocationParam)) {
+                geolocation.accuracy =
+                    parseFloat(geolocationParam.accuracy?.toString()) || 0;
+            }
+            if (
+                Math.abs(geolocation.latitude) <= 90 &&
+                Math.abs(geolocation.longitude) <= 180 &&
+                geolocation.accuracy >= 0
+            ) {
+                this.config.geolocation = geolocation;
+            } else {
+                logError(
+                    'The geolocation is not valid. Use a latitude between -90 and 90 and a longitude between -180 and 180.'
+                );
+            }
+        }
+    }
+
+    /**
+     * Sets the HAR file to record the responses to or to replay them from
+     *
+     * The HAR file can be set as a path or as an object with the path, mode, and notFound values.
+     * The top level "harMode" and "harNotFound" values are used if the object doesn't set them.
+     */
+    #setHar() {
+        const harParam = this.configParam?.har;
+        if (isFalseLike(harParam)) {
+            this.config.har = false;
+        } else if (isStringWithValue(harParam)) {
+            this.config.har = {
+                mode: 'record',
+                notFound: 'abort',
+                ...this.config.har,
+                path: harParam,
+            };
+        } else if (isObject(harParam)) {
+            if (isStringWithValue(harParam.path)) {
+                this.config.har = {
+                    mode: 'record',
+                    notFound: 'abort',
+                    ...this.config.har,
+                    path: harParam.path,
+                };
+            } else {
+                logError(
+                    'The har value must include the path to the HAR file.'
+                );
+            }
+        }
+        if (this.config.har) {
+            const harObject = isObject(harParam) ? harParam : undefined;
+            const mode = harObject?.mode ?? this.configParam?.harMode;
+            if (isStringWithValue(mode)) {
+                const harMode = mode.toLowerCase();
+                if (harMode === 'record' || harMode === 'replay') {
+                    this.config.har.mode = harMode;
+                } else {
+                    logError(
+                        `The HAR mode "${mode}" is not valid. Use "record" or "replay".`
+                    );
+                }
+            }
+            const notFound =
+                harObject?.notFound ?? this.configParam?.harNotFound;
+            if (isStringWithValue(notFound)) {
+                const harNotFound = notFound.toLowerCase();
+                if (harNotFound === 'abort' || harNotFound === 'fallback') {
+                    this.config.har.notFound = harNotFound;
+                } else {
+                    logError(
+                        `The HAR notFound value "${notFound}" is not valid. Use "abort" or "fallback".`
+                    );
+                }
+            }
+        }
+    }
+
+    /**
+     * Set the extra HTTP headers to send with every request
+     *
+     * The headers can be an object of header names and values, or one or more "Name: value" strings.
+     * Environment variable references like ${API_TOKEN} in the header values are replaced.
+     */
+    #setHeaders() {
+        const headersParam = this.configParam?.headers;
+        if (isFalseLike(headersParam)) {
+            this.config.headers = {};
+        } else if (isObjectWithValues(headersParam)) {
+            this.config.headers = {};
+            Object.entries(headersParam).forEach(([name, value]) => {
+                if (isStringWithValue(name) && isDefined(value)) {
+                    this.config.headers[name] = replaceEnvVariables(
+                        value.toString()
+                    );
+                }
+            });
+        } else if (
+            isStringWithValue(headersParam) ||
+            Array.isArray(headersParam)
+        ) {
+            this.config.headers = {};
+            processStringArray(headersParam).forEach((header) => {
+                const index = header.indexOf(':');
+                if (index > 0) {
+                    this.config.headers[header.substring(0, index).trim()] =
+                        replaceEnvVariables(header.substring(index + 1).trim());
+                } else {
+                    logError(
+                        `The header "${header}" is not valid. Use the "Name: value" format.`
+                    );
+                }
+            });
+        }
+    }
+
     /**
      * Sets the height of the viewport to take the screenshot in
      */
@@ -447,7 +1495,8 @@ export class ConfigParser {
     }
 
     /**
-     * Sets the CSS selector of the element to hide during the screenshot process if screenshots are stitched together. The elements are hidden after the first scroll. Common usage is to hide a sticky header or floating element.
+     * Sets the CSS selector of the element to hide during the screenshot process if screenshots are stitched together. The elements are hidden after the first scroll.
+     * Common usage is to hide a sticky header or floating element.
      */
     #setHideStitchElement() {
         if (isStringWithValue(this.configParam?.hideStitchSelector)) {
@@ -466,6 +1515,240 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets the HTTP authentication username and password
+     *
+     * It can be an object with the username and password or a "username:password" string.
+     * Environment variable references like ${STAGING_PASSWORD} are replaced.
+     */
+    #setHttpAuth() {
+        const httpAuth = this.configParam?.httpAuth;
+        if (isFalseLike(httpAuth)) {
+            this.config.httpAuth = false;
+        } else if (
+            isObject(httpAuth) &&
+            objectValueIsStringWithValue(httpAuth, 'username')
+        ) {
+            this.config.httpAuth = {
+                password: replaceEnvVariables(
+                    isStringWithValue(httpAuth.password)
+                        ? httpAuth.password
+                        : ''
+                ),
+                username: replaceEnvVariables(httpAuth.username),
+            };
+        } else if (isStringWithValue(httpAuth)) {
+            const index = httpAuth.indexOf(':');
+            if (index > 0) {
+                this.config.httpAuth = {
+                    password: replaceEnvVariables(
+                        httpAuth.substring(index + 1)
+                    ),
+                    username: replaceEnvVariables(httpAuth.substring(0, index)),
+                };
+            } else {
+                logError(
+                    'The httpAuth value is not valid. Use the "username:password" format.'
+                );
+            }
+        }
+    }
+
+    /**
+     * Sets the CSS to add to the page after it loads
+     */
+    #setInjectCss() {
+        const injectCss = this.configParam?.injectCss;
+        if (isFalseLike(injectCss)) {
+            this.config.injectCss = [];
+        } else if (isStringWithValue(injectCss) || Array.isArray(injectCss)) {
+            this.config.injectCss = processInjectValue(injectCss, '.css');
+        }
+    }
+
+    /**
+     * Sets the JavaScript to run in the page after it loads
+     */
+    #setInjectScript() {
+        const injectScript = this.configParam?.injectScript;
+        if (isFalseLike(injectScript)) {
+            this.config.injectScript = [];
+        } else if (
+            isStringWithValue(injectScript) ||
+            Array.isArray(injectScript)
+        ) {
+            this.config.injectScript = processInjectValue(injectScript, '.js');
+        }
+    }
+
+    /**
+     * Sets the locale to request the page in
+     */
+    #setLocale() {
+        const locale = this.configParam?.locale;
+        if (isFalseLike(locale)) {
+            this.config.locale = '';
+        } else if (isStringWithValue(locale)) {
+            try {
+                // Get the canonical locale, like "fr-FR" for "fr-fr". It throws an error if the locale isn't valid.
+                [this.config.locale] = Intl.getCanonicalLocales(locale.trim());
+            } catch {
+                logError(
+                    `The locale "${locale}" is not valid. Use a language tag like "en-US" or "fr".`
+                );
+            }
+        }
+    }
+
+    /**
+     * Sets the login flow to run before taking screenshots of protected pages
+     *
+     * Environment variable references like ${APP_PASSWORD} in the field values are replaced.
+     */
+    #setLogin() {
+        const login = this.configParam?.login;
+        if (isFalseLike(login)) {
+            this.config.login = false;
+        } else if (isObjectWithValues(login)) {
+            if (
+                !objectValueIsStringWithValue(login, 'url') ||
+                !objectValueIsStringWithValue(login, 'submit')
+            ) {
+                logError('The login must have a "url" and a "submit" value');
+                return;
+            }
+            // The login URL can be relative to the base URL
+            let loginUrl = replaceEnvVariables(login.url);
+            if (!/^https?:\/\//.test(loginUrl) && this.config.baseUrl) {
+                loginUrl = `${this.config.baseUrl}/${loginUrl.replace(/^\//, '')}`;
+            }
+            const fields: LoginConfig['fields'] = [];
+            if (isObjectWithValues(login.fields)) {
+                Object.entries(login.fields).forEach(([selector, value]) => {
+                    if (isStringWithValue(selector) && isDefined(value)) {
+                        fields.push({
+                            selector,
+                            value: replaceEnvVariables(value.toString()),
+                        });
+                    }
+                });
+            }
+            this.config.login = {
+                fields,
+                submit: login.submit,
+                successSelector: isStringWithValue(login.successSelector)
+                    ? login.successSelector
+                    : '',
+                successUrl: isStringWithValue(login.successUrl)
+                    ? login.successUrl
+                    : '',
+                url: loginUrl,
+            };
+        }
+    }
+
+    /**
+     * Sets whether or not to write a manifest.json file in the directory that describes each screenshot
+     */
+    #setManifest() {
+        if (isBoolLike(this.configParam?.manifest)) {
+            this.config.manifest = isTrueLike(this.configParam.manifest);
+        }
+    }
+
+    /**
+     * Sets the CSS color of the boxes that cover the masked elements
+     */
+    #setMaskColor() {
+        if (isStringWithValue(this.configParam?.maskColor)) {
+            this.config.maskColor = this.configParam.maskColor.trim();
+        }
+    }
+
+    /**
+     * Sets the CSS selectors of the elements to cover with a solid box before the screenshot is taken
+     */
+    #setMaskSelector() {
+        const maskSelector = this.configParam?.maskSelector;
+        if (isFalseLike(maskSelector)) {
+            this.config.maskSelector = [];
+        } else if (
+            isStringWithValue(maskSelector) ||
+            Array.isArray(maskSelector)
+        ) {
+            this.config.maskSelector = processStringArray(maskSelector);
+        }
+    }
+
+    /**
+     * Sets the network speed to emulate
+     *
+     * It can be a preset, like "Slow 3G", or an object with the download and upload speeds in kilobits per second.
+     */
+    #setNetwork() {
+        const network = this.configParam?.network;
+        if (isFalseLike(network)) {
+            this.config.network = false;
+        } else if (isStringWithValue(network)) {
+            const conditions = getNetworkConditions(network);
+            if (conditions) {
+                this.config.network = conditions;
+            } else {
+                logError(
+                    `The network value "${network}" is not a known preset. Use one of: ${getNetworkPresets().join(', ')}`
+                );
+            }
+        } else if (isObject(network)) {
+            const download = processNumberInRange(
+                network.download,
+                1,
+                Number.MAX_SAFE_INTEGER
+            );
+            if (download === null) {
+                logError(
+                    'The network object must have a "download" value in kilobits per second'
+                );
+                return;
+            }
+            const upload =
+                processNumberInRange(
+                    network.upload,
+                    1,
+                    Number.MAX_SAFE_INTEGER
+                ) ?? download;
+            // Puppeteer uses bytes per second
+            this.config.network = {
+                download: (download * 1000) / 8,
+                latency:
+                    processNumberInRange(
+                        network.latency,
+                        0,
+                        Number.MAX_SAFE_INTEGER
+                    ) ?? 0,
+                upload: (upload * 1000) / 8,
+            };
+        }
+    }
+
+    /**
+     * Sets the CSS media type to emulate
+     */
+    #setMedia() {
+        const media = this.configParam?.media;
+        if (isFalseLike(media)) {
+            this.config.media = false;
+        } else if (isStringWithValue(media)) {
+            const value = media.toLowerCase();
+            if (value === 'print' || value === 'screen') {
+                this.config.media = value;
+            } else {
+                logError(
+                    `The media value "${media}" is not valid. Use "screen" or "print".`
+                );
+            }
+        }
+    }
+
     /**
      * Sets the device scale factor to use for the screenshot.
      */
@@ -493,6 +1776,86 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets the reduced motion preference to emulate
+     */
+    #setReducedMotion() {
+        const reducedMotion = this.configParam?.reducedMotion;
+        if (isTrueLike(reducedMotion)) {
+            this.config.reducedMotion = 'reduce';
+        } else if (isFalseLike(reducedMotion)) {
+            this.config.reducedMotion = false;
+        } else if (isStringWithValue(reducedMotion)) {
+            const value = reducedMotion.toLowerCase();
+            if (value === 'no-preference' || value === 'reduce') {
+                this.config.reducedMotion = value;
+            } else {
+                logError(
+                    `The reducedMotion value "${reducedMotion}" is not valid. Use "reduce" or "no-preference".`
+                );
+            }
+        }
+    }
+
+    /**
+     * Sets whether or not to save an index.html report in the directory that shows each screenshot
+     */
+    #setReport() {
+        if (isBoolLike(this.configParam?.report)) {
+            this.config.report = isTrueLike(this.configParam.report);
+        }
+    }
+
+    /**
+     * Sets the rules to send requests to a different URL
+     *
+     * The rules can be an object where the keys are the start of the URLs, or regular expressions, and the values
+     * are what to replace them with, or one or more "from=to" strings.
+     */
+    #setRewriteRequests() {
+        const rewriteParam = this.configParam?.rewriteRequests;
+        if (isFalseLike(rewriteParam)) {
+            this.config.rewriteRequests = [];
+        } else if (
+            isObjectWithValues(rewriteParam) ||
+            isStringWithValue(rewriteParam) ||
+            Array.isArray(rewriteParam)
+        ) {
+            let rules: [string, unknown][] = [];
+            if (isObject(rewriteParam)) {
+                rules = Object.entries(rewriteParam);
+            } else {
+                // A FROM=TO rule with more than one "=" can't be split because the "="
+                // could belong to either URL, like a query string or a regular expression.
+                rules = processStringArray(rewriteParam).map((rule) => {
+                    const index = rule.indexOf('=');
+                    if (index !== rule.lastIndexOf('=')) {
+                        return [rule, null];
+                    }
+                    return index > 0
+                        ? [rule.substring(0, index), rule.substring(index + 1)]
+                        : [rule, ''];
+                });
+            }
+            const rewriteRequests: RewriteRequest[] = [];
+            rules.forEach(([from, to]) => {
+                if (isStringWithValue(from) && isStringWithValue(to)) {
+                    rewriteRequests.push({ from: from.trim(), to: to.trim() });
+                } else if (to === null) {
+                    logError(
+                        `The rewriteRequests rule "${from}" has more than one "=". ` +
+                            'Set the rewriteRequests object in a JSON configuration file for the URLs that contain "=".'
+                    );
+                } else {
+                    logError(
+                        `The rewriteRequests rule "${from}" is not valid. Use FROM=TO, like "https://cdn.mysite.com=http://localhost:8080".`
+                    );
+                }
+            });
+            this.config.rewriteRequests = rewriteRequests;
+        }
+    }
+
     /**
      * Sets the number of milliseconds to delay after each scroll to allow the content to load.
      *
@@ -510,6 +1873,49 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets the CSS selectors of the elements to take screenshots of instead of the page
+     */
+    #setSelector() {
+        if (isFalseLike(this.configParam?.selector)) {
+            this.config.selector = [];
+        } else if (
+            isStringWithValue(this.configParam?.selector) ||
+            Array.isArray(this.configParam?.selector)
+        ) {
+            this.config.selector = processStringArray(
+                this.configParam.selector
+            );
+        }
+    }
+
+    /**
+     * Sets the number of pixels of padding to include around each element screenshot
+     */
+    #setSelectorPadding() {
+        if (isNumberOrNumberString(this.configParam?.selectorPadding)) {
+            const selectorPadding = parseInt(
+                this.configParam.selectorPadding.toString(),
+                10
+            );
+            if (selectorPadding >= 0) {
+                this.config.selectorPadding = selectorPadding;
+            }
+        }
+    }
+
+    /**
+     * Set the number of times to retry a screenshot that failed or timed out
+     */
+    #setRetries() {
+        if (isNumberOrNumberString(this.configParam?.retries)) {
+            const retries = parseInt(this.configParam.retries.toString(), 10);
+            if (retries >= 0) {
+                this.config.retries = retries;
+            }
+        }
+    }
+
     /**
      * Sets the stitch threshold value
      */
@@ -522,6 +1928,62 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets the thumbnails to save from each screenshot
+     *
+     * Each thumbnail can be a width or an object with the thumbnail settings. Thumbnails that don't
+     * set their own crop value use the "thumbnailCrop" value.
+     */
+    #setThumbnails() {
+        const thumbnails = this.configParam?.thumbnails;
+        if (isFalseLike(thumbnails)) {
+            this.config.thumbnails = [];
+        } else if (isDefined(thumbnails)) {
+            this.config.thumbnails = [];
+            const crop = this.configParam?.thumbnailCrop;
+            (Array.isArray(thumbnails) ? thumbnails : [thumbnails]).forEach(
+                (thumbnail, index) => {
+                    const param: ThumbnailParam = isObject(thumbnail)
+                        ? thumbnail
+                        : { width: thumbnail as number | string };
+                    const width = processNumberInRange(
+                        param.width,
+                        1,
+                        Number.MAX_SAFE_INTEGER
+                    );
+                    if (width === null) {
+                        logError(
+                            `The thumbnail at index ${index} does not have a valid "width" value`
+                        );
+                        return;
+                    }
+                    const thumbnailConfig: Thumbnail = {
+                        crop: false,
+                        suffix: isStringWithValue(param.suffix)
+                            ? param.suffix
+                            : `-${width}`,
+                        width,
+                    };
+                    const thumbnailCrop = param.crop ?? crop;
+                    if (
+                        isDefined(thumbnailCrop) &&
+                        !isFalseLike(thumbnailCrop)
+                    ) {
+                        thumbnailConfig.crop = processAspectRatio(
+                            thumbnailCrop as number | string
+                        );
+                        if (thumbnailConfig.crop === false) {
+                            logError(
+                                `The thumbnail at index ${index} does not have a valid "crop" value. Use an aspect ratio like "16:9".`
+                            );
+                        }
+                    }
+                    this.config.thumbnails.push(thumbnailConfig);
+                }
+            );
+        }
+    }
+
     /**
      * Sets one or more URLs
      */
@@ -569,6 +2031,44 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Sets one or more sitemaps to get the URLs from
+     *
+     * The sitemap can be set as a URL or file path string, an object with the URL and the include and exclude patterns,
+     * or an array of those values.
+     * The top level "sitemapInclude" and "sitemapExclude" patterns are used if the sitemap doesn't set its own patterns.
+     */
+    #setSitemaps() {
+        if (isDefined(this.configParam?.sitemap)) {
+            const sitemaps: SitemapParam[] = Array.isArray(
+                this.configParam.sitemap
+            )
+                ? this.configParam.sitemap
+                : [this.configParam.sitemap];
+            const include = processStringArray(
+                this.configParam?.sitemapInclude
+            );
+            const exclude = processStringArray(
+                this.configParam?.sitemapExclude
+            );
+            for (const sitemap of sitemaps) {
+                if (isStringWithValue(sitemap)) {
+                    this.sitemaps.push({ url: sitemap, include, exclude });
+                } else if (objectValueIsStringWithValue(sitemap, 'url')) {
+                    this.sitemaps.push({
+                        url: sitemap.url,
+                        include: isDefined(sitemap.include)
+                            ? processStringArray(sitemap.include)
+                            : include,
+                        exclude: isDefined(sitemap.exclude)
+                            ? processStringArray(sitemap.exclude)
+                            : exclude,
+                    });
+                }
+            }
+        }
+    }
+
     /**
      * Set one or more viewport sizes
      *
@@ -581,6 +2081,9 @@ export class ConfigParser {
      *
      * It can also be set as an object that contains the width and height values and other configuration values.
      * {width: 1200, height: 560}
+     *
+     * A device name can be used instead of the width and height.
+     * ['iPhone 15', {device: 'Pixel 5', fit: true}]
      */
     #setViewportSizes() {
         if (isDefined(this.configParam?.sizes)) {
@@ -613,7 +2116,9 @@ export class ConfigParser {
      * @param {string|SizeParamObject} size The viewport size to configure
      */
     #configureViewportSize(size: string | SizeParamObject) {
-        if (isStringWithValue(size)) {
+        if (isStringWithValue(size) && getDeviceName(size)) {
+            this.config.sizes.push({ device: size });
+        } else if (isStringWithValue(size)) {
             const sizes = size.split('x');
             if (sizes.length === 2) {
                 const width = parseInt(sizes[0], 10);
@@ -625,6 +2130,12 @@ export class ConfigParser {
                     });
                 }
             }
+        } else if (
+            objectValueIsStringWithValue(size, 'device') &&
+            getDeviceName(size.device as string)
+        ) {
+            // The device sets the width and height
+            this.config.sizes.push(size);
         } else if (
             objectValueIsNumberOrNumberString(size, 'width') &&
             objectValueIsNumberOrNumberString(size, 'height')
@@ -637,6 +2148,127 @@ export class ConfigParser {
         }
     }
 
+    /**
+     * Set the maximum number of milliseconds to wait for the page to load and for the screenshot to be taken
+     */
+    #setTimeout() {
+        if (isNumberOrNumberString(this.configParam?.timeout)) {
+            const timeout = parseInt(this.configParam.timeout.toString(), 10);
+            if (timeout > 0) {
+                this.config.timeout = timeout;
+            }
+        }
+    }
+
+    /**
+     * Sets the IANA time zone to emulate
+     */
+    #setTimezone() {
+        const timezone = this.configParam?.timezone;
+        if (isFalseLike(timezone)) {
+            this.config.timezone = '';
+        } else if (isStringWithValue(timezone)) {
+            try {
+                // Throws an error if the time zone isn't valid
+                Intl.DateTimeFormat('en-US', { timeZone: timezone.trim() });
+                this.config.timezone = timezone.trim();
+            } catch {
+                logError(
+                    `The timezone "${timezone}" is not valid. Use an IANA time zone like "America/New_York".`
+                );
+            }
+        }
+    }
+
+    /**
+     * Sets whether or not to wait for the web fonts to load
+     */
+    #setWaitForFonts() {
+        const waitForFonts = processWaitFor(this.configParam?.waitForFonts);
+        if (waitForFonts !== null) {
+            this.config.waitForFonts = waitForFonts;
+        }
+    }
+
+    /**
+     * Sets the JavaScript expression to wait for to return a truthy value
+     */
+    #setWaitForFunction() {
+        const waitForFunction = this.configParam?.waitForFunction;
+        if (isFalseLike(waitForFunction)) {
+            this.config.waitForFunction = false;
+        } else if (isStringWithValue(waitForFunction)) {
+            this.config.waitForFunction = { script: waitForFunction };
+        } else if (
+            isObject(waitForFunction) &&
+            objectValueIsStringWithValue(waitForFunction, 'script')
+        ) {
+            this.config.waitForFunction = {
+                ...processWaitForTimeout(waitForFunction.timeout),
+                script: waitForFunction.script,
+            };
+        }
+    }
+
+    /**
+     * Sets whether or not to wait for all images to load, including lazy loaded images
+     */
+    #setWaitForImages() {
+        const waitForImages = processWaitFor(this.configParam?.waitForImages);
+        if (waitForImages !== null) {
+            this.config.waitForImages = waitForImages;
+        }
+    }
+
+    /**
+     * Sets whether or not to wait until there are no network connections
+     */
+    #setWaitForNetworkIdle() {
+        const waitForNetworkIdle = this.configParam?.waitForNetworkIdle;
+        const waitFor = processWaitFor(waitForNetworkIdle);
+        if (waitFor === false) {
+            this.config.waitForNetworkIdle = false;
+        } else if (waitFor !== null) {
+            let idleTime = defaultIdleTime;
+            if (
+                isObject(waitForNetworkIdle) &&
+                objectValueIsNumberOrNumberString(
+                    waitForNetworkIdle,
+                    'idleTime'
+                )
+            ) {
+                const value = parseInt(
+                    waitForNetworkIdle.idleTime.toString(),
+                    10
+                );
+                if (value >= 0) {
+                    idleTime = value;
+                }
+            }
+            this.config.waitForNetworkIdle = { ...waitFor, idleTime };
+        }
+    }
+
+    /**
+     * Sets the CSS selector of an element to wait for
+     */
+    #setWaitForSelector() {
+        const waitForSelector = this.configParam?.waitForSelector;
+        if (isFalseLike(waitForSelector)) {
+            this.config.waitForSelector = false;
+        } else if (isStringWithValue(waitForSelector)) {
+            this.config.waitForSelector = { selector: waitForSelector };
+        } else if (
+            isObject(waitForSelector) &&
+            objectValueIsStringWithValue(waitForSelector, 'selector')
+        ) {
+            this.config.waitForSelector = {
+                ...processWaitForTimeout(waitForSelector.timeout),
+                selector: waitForSelector.selector,
+            };
+        }
+    }
+
     /**
      * Sets the wait until value to use for the page
      *
@@ -0,0 +1,144 @@
+/* ===========================================================================
+    Handles getting the screenshots of the elements that match the "selector" option
+    A screenshot is taken of each element that matches each selector.
+=========================================================================== */
+
+import sharp from 'sharp';
+import { ElementHandle, Page, type ScreenshotOptions } from 'puppeteer';
+import { logSuccess } from './lib/log.js';
+import { getUrlPath } from './lib/helpers.js';
+import { optimizeImage } from './lib/optimize.js';
+import saveThumbnails from './lib/thumbnails.js';
+import {
+    type ElementData,
+    type ElementScreenshot,
+    type UrlData,
+} from './types.js';
+
+/**
+ * Gets the clip area that adds the padding around the element.
+ * The clip is relative to the element. The padding is reduced at the top and left edges of the page
+ * so that the clip doesn't start outside of the page.
+ *
+ * @param {ElementHandle} element The element
+ * @param {number} padding The number of pixels of padding to include around the element
+ * @returns {Promise<ScreenshotOptions['clip']>}
+ */
+const getPaddingClip = async (
+    element: ElementHandle<Element>,
+    padding: number
+): Promise<ScreenshotOptions['clip']> => {
+    const box = await element.evaluate((el) => {
+        const rect = el.getBoundingClientRect();
+        return {
+            height: rect.height,
+            left: rect.left + window.scrollX,
+            top: rect.top + window.scrollY,
+            width: rect.width,
+        };
+    });
+    const left = Math.min(padding, box.left);
+    const top = Math.min(padding, box.top);
+    return {
+        height: box.height + top + padding,
+        width: box.width + left + padding,
+        x: -left,
+        y: -top,
+    };
+};
+
+/**
+ * Takes a screenshot of a single element
+ *
+ * @param {ElementHandle} element The element
+ * @param {UrlData} url The URL object
+ * @param {ElementData} elementData The selector that matched the element and the index of the element
+ * @param {ScreenshotOptions} screenshotConfig The screenshot configuration
+ * @returns {Promise<ElementScreenshot>} The element screenshot
+ */
+const getElementScreenshot = async (
+    element: ElementHandle<Element>,
+    url: UrlData,
+    elementData: ElementData,
+    screenshotConfig: ScreenshotOptions
+): Promise<ElementScreenshot> => {
+    const path = getUrlPath({ ...url, element: elementData });
+    const options: ScreenshotOptions = {
+        path,
+        quality: screenshotConfig.quality,
+        type: screenshotConfig.type,
+    };
+    if (url.selectorPadding > 0) {
+        // Scroll first so that the padding is calculated from where the element will be captured
+        await element.scrollIntoView();
+        options.clip = await getPaddingClip(element, url.selectorPadding);
+    }
+    await element.screenshot(options);
+    await optimizeImage(path, url);
+    const metadata = await sharp(path).metadata();
+    logSuccess(`Saved ${path}`);
+    const screenshot: ElementScreenshot = {
+        ...elementData,
+        imageHeight: metadata.height,
+        imageWidth: metadata.width,
+        path,
+    };
+    const thumbnails = await saveThumbnails(path, {
+        ...url,
+        element: elementData,
+    });
+    if (thumbnails.length > 0) {
+        screenshot.thumbnails = thumbnails;
+    }
+    return screenshot;
+};
+
+/**
+ * Takes a screenshot of each element that matches the selectors
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @param {ScreenshotOptions} screenshotConfig The screenshot configuration
+ * @returns {Promise<ElementScreenshot[]>} The element screenshots
+ */
+const getElementScreenshots = async (
+    page: Page,
+    url: UrlData,
+    screenshotConfig: ScreenshotOptions
+): Promise<ElementScreenshot[]> => {
+    const screenshots: ElementScreenshot[] = [];
+    for (const selector of url.selector) {
+        try {
+            // eslint-disable-next-line no-await-in-loop -- The selectors are captured in order
+            await page.waitForSelector(selector, {
+                timeout: url.timeout,
+                visible: true,
+            });
+        } catch {
+            throw new Error(`No visible elements match "${selector}"`);
+        }
+        // eslint-disable-next-line no-await-in-loop -- The selectors are captured in order
+        const elements = await page.$$(selector);
+        for (const [index, element] of elements.entries()) {
+            // Hidden elements can't be captured. They still count towards the index so that
+            // the file names match the order of the elements on the page.
+            // eslint-disable-next-line no-await-in-loop -- Each screenshot scrolls the page so they must be taken one at a time
+            if (await element.isVisible()) {
+                screenshots.push(
+                    // eslint-disable-next-line no-await-in-loop -- Each screenshot scrolls the page so they must be taken one at a time
+                    await getElementScreenshot(
+                        element,
+                        url,
+                        { index, selector },
+                        screenshotConfig
+                    )
+                );
+            }
+        }
+        // eslint-disable-next-line no-await-in-loop -- The selectors are captured in order
+        await Promise.all(elements.map((element) => element.dispose()));
+    }
+    return screenshots;
+};
+
+export default getElementScreenshots;
@@ -4,13 +4,15 @@
     https://screenshotone.com/blog/a-complete-guide-on-how-to-take-full-page-screenshots-with-puppeteer-playwright-or-selenium/
 =========================================================================== */
 
-import fs from 'fs-extra';
-import sharp from 'sharp';
-import { ConsoleMessage, Page, type ScreenshotOptions } from 'puppeteer';
+import sharp, { type Sharp } from 'sharp';
+import { Page, type ScreenshotOptions } from 'puppeteer';
 import { setTimeout } from 'node:timers/promises';
-import { logError, logMessage } from './lib/log.js';
 import { type UrlData } from './types.js';
+import { disableAnimations } from './lib/animations.js';
 import { hideElements } from './lib/helpers.js';
+import maskElements from './lib/mask.js';
+import { encodeImage } from './lib/optimize.js';
+import { waitForImages } from './lib/wait.js';
 
 type PageSizeInfo = {
     pages: number;
@@ -25,16 +27,18 @@ type PageSizeInfo = {
 /**
  * Stitches multiple image buffers vertically into one image.
  *
+ * The image isn't encoded so that it can be saved in the file type of the screenshot.
+ *
  * @param {Buffer[]} scrBuffers The array of image buffers to stitch together
  * @param {number} width The width of the final image
  * @param {number} extraHeight The extra height of the last image
- * @returns {Promise<Buffer>} The stitched image buffer
+ * @returns {Promise<Sharp>} The stitched image
  */
 const stitchImages = async (
     scrBuffers: Buffer[],
     width: number,
     extraHeight: number
-): Promise<Buffer> => {
+): Promise<Sharp> => {
     const numBuffers = scrBuffers.length;
     // Convert all slices to Sharp objects & metadata
     const sharpImages = await Promise.all(
@@ -86,10 +90,7 @@ const stitchImages = async (
             channels: 4,
             background: { r: 255, g: 255, b: 255, alpha: 0 },
         },
-    })
-        .composite(composites)
-        .png()
-        .toBuffer();
+    }).composite(composites);
 };
 
 /**
@@ -146,15 +147,18 @@ const getPageSizeInfo = async (page: Page): Promise<PageSizeInfo> =>
  * - Detects infinite scroll / expanding layout
  * - Falls back to stitched images if fullPage capture is unreliable
  *
+ * Errors are thrown so that the screenshot is reported as failed.
+ *
  * @param {Page} page The page object
  * @param {UrlData} url The URL data object
  * @param {ScreenshotOptions} screenshotConfig The screenshot configuration
+ * @returns {Promise<boolean>} Whether or not the screenshot was stitched together from multiple screenshots
  */
 const getFullPageScreenshot = async (
     page: Page,
     url: UrlData,
     screenshotConfig: ScreenshotOptions
-) => {
+): Promise<boolean> => {
     // Maximum number of scroll loops to perform.
     // This is a safety measure to prevent the script from getting stuck in an infinite loop
     // with a very tall or infinite scroll page.
@@ -166,105 +170,128 @@ const getFullPageScreenshot = async (
     // See https://issues.chromium.org/issues/41347676 for more information.
     // Visit https://webglreport.com/ in Chrome and check the "Max Texture Size" value to see the maximum texture size supported by the browser.
     const { stitchThreshold } = url;
+    let stitched = false;
 
-    try {
-        // Handle console logs from the page so that they are printed in the console.
-        // Useful for debugging when developing.
-        // https://stackoverflow.com/a/61665218
-        page.on('console', (consoleObj: ConsoleMessage) => {
-            if (consoleObj.type() === 'log') {
-                logMessage(consoleObj.text());
-            }
-        });
-
-        // Get the initial page size info
-        let pageSizeInfo = await getPageSizeInfo(page);
+    // Get the initial page size info
+    let pageSizeInfo = await getPageSizeInfo(page);
 
-        // Set up the variables for the scroll loop
-        let lastHeight = pageSizeInfo.viewport.height;
-        let sameHeightCount = 0;
+    // Set up the variables for the scroll loop
+    let lastHeight = pageSizeInfo.viewport.height;
+    let sameHeightCount = 0;
 
-        // Do the scroll loop to trigger lazy loading of images
-        // and to get the final page size info.
-        // This handles infinite scroll pages.
-        for (let index = 0; index < maxScrollLoops; index += 1) {
-            // eslint-disable-next-line no-await-in-loop -- Must scroll sequentially to trigger lazy loading
-            await scrollDown(page);
-            // eslint-disable-next-line no-await-in-loop -- Delay after scroll to allow content to load
-            await setTimeout(url.scrollDelay);
+    // Do the scroll loop to trigger lazy loading of images
+    // and to get the final page size info.
+    // This handles infinite scroll pages.
+    for (let index = 0; index < maxScrollLoops; index += 1) {
+        // eslint-disable-next-line no-await-in-loop -- Must scroll sequentially to trigger lazy loading
+        await scrollDown(page);
+        // eslint-disable-next-line no-await-in-loop -- Delay after scroll to allow content to load
+        await setTimeout(url.scrollDelay);
 
-            // Get the new page height and compare it to the last height.
-            // If the height stabilizes for several loops, stop scrolling.
-            // eslint-disable-next-line no-await-in-loop -- Must check height after each scroll position
-            const newHeight = await getPageHeight(page);
-            if (newHeight === lastHeight) {
-                sameHeightCount++;
-            } else {
-                sameHeightCount = 0;
-            }
+        // Get the new page height and compare it to the last height.
+        // If the height stabilizes for several loops, stop scrolling.
+        // eslint-disable-next-line no-await-in-loop -- Must check height after each scroll position
+        const newHeight = await getPageHeight(page);
+        if (newHeight === lastHeight) {
+            sameHeightCount++;
+        } else {
+            sameHeightCount = 0;
+        }
 
-            // If height stabilizes for several loops, stop scrolling
-            if (sameHeightCount >= 3) break;
+        // If height stabilizes for several loops, stop scrolling
+        if (sameHeightCount >= 3) break;
 
-            // Update the last height to the new height for the next loop.
-            lastHeight = newHeight;
-        }
+        // Update the last height to the new height for the next loop.
+        lastHeight = newHeight;
+    }
 
-        // Get the final page size info
-        pageSizeInfo = await getPageSizeInfo(page);
+    // Wait for the images that were lazy loaded by the scrolling
+    if (url.waitForImages) {
+        await waitForImages(page, url.waitForImages.timeout ?? url.timeout);
+    }
 
-        // Scroll back to top before capturing
-        await page.evaluate(() =>
-            window.scrollTo({ top: 0, left: 0, behavior: 'instant' })
-        );
-        await setTimeout(100);
+    // Stop the animations that were started by the scrolling
+    if (url.disableAnimations) {
+        await disableAnimations(page);
+    }
 
-        // If the page is reasonably sized, prefer fullPage screenshot
-        const fullHeight = await getPageHeight(page);
-        if (fullHeight <= stitchThreshold) {
-            await page.screenshot(screenshotConfig);
-        } else {
-            // The page is tall enough that we need to stitch it together from multiple screenshots.
-            // Set up the screenshot configuration. It should not have the path or fullPage options
-            // since we will be taking multiple screenshots and stitching them together.
-            const screenshotConf = { ...screenshotConfig };
-            screenshotConf.captureBeyondViewport = false;
-            const { path } = screenshotConf;
-            delete screenshotConf.path;
-            delete screenshotConf.fullPage;
+    // Get the final page size info
+    pageSizeInfo = await getPageSizeInfo(page);
 
-            const sectionScreenshots = [];
+    // Scroll back to top before capturing
+    await page.evaluate(() =>
+        window.scrollTo({ top: 0, left: 0, behavior: 'instant' })
+    );
+    await setTimeout(100);
 
-            for (let index = 0; index < pageSizeInfo.pages; index += 1) {
-                if (index > 0 && Array.isArray(url.hideStitchSelector)) {
-                    // eslint-disable-next-line no-await-in-loop -- Must hide elements before each screenshot
-                    await hideElements(page, url.hideStitchSelector);
-                }
+    // If the page is reasonably sized, prefer fullPage screenshot
+    const fullHeight = await getPageHeight(page);
+    if (fullHeight <= stitchThreshold) {
+        // Cover the masked elements where they are after the scrolling
+        await maskElements(page, url.maskSelector, url.maskColor);
+        await page.screenshot(screenshotConfig);
+    } else {
+        // The page is tall enough that we need to stitch it together from multiple screenshots.
+        stitched = true;
+        // Set up the screenshot configuration. It should not have the path or fullPage options
+        // since we will be taking multiple screenshots and stitching them together.
+        const screenshotConf = { ...screenshotConfig };
+        screenshotConf.captureBeyondViewport = false;
+        const { path } = screenshotConf;
+        delete screenshotConf.path;
+        delete screenshotConf.fullPage;
 
-                // Pause slightly before taking the screenshot to allow the page to settle.
-                // eslint-disable-next-line no-await-in-loop -- Delay needed before each screenshot
-                await setTimeout(100);
-                // await page.waitForNetworkIdle({ idleTime: 200 }).catch(() => {});
-                // await waitForImages(page);
+        const sectionScreenshots = [];
 
-                // eslint-disable-next-line no-await-in-loop -- Screenshot must be taken at current scroll position
-                const screenshot = await page.screenshot(screenshotConf);
-                sectionScreenshots.push(screenshot);
+        for (let index = 0; index < pageSizeInfo.pages; index += 1) {
+            // The elements only have to be hidden once because the styles stay on the page
+            if (index === 1 && Array.isArray(url.hideStitchSelector)) {
+                // eslint-disable-next-line no-await-in-loop -- Must hide elements before the second screenshot
+                await hideElements(page, url.hideStitchSelector);
+            }
 
-                // eslint-disable-next-line no-await-in-loop -- Must scroll sequentially to next position
-                await scrollDown(page);
+            // Pause slightly before taking the screenshot to allow the page to settle.
+            // eslint-disable-next-line no-await-in-loop -- Delay needed before each screenshot
+            await setTimeout(100);
+            if (url.waitForImages) {
+                // eslint-disable-next-line no-await-in-loop -- Images that were loaded by the scroll must load before each screenshot
+                await waitForImages(
+                    page,
+                    url.waitForImages.timeout ?? url.timeout
+                );
             }
 
+            // Cover the masked elements again because fixed and sticky elements move with each scroll
+            // eslint-disable-next-line no-await-in-loop -- Must cover the elements at the current scroll position
+            await maskElements(page, url.maskSelector, url.maskColor);
+
+            // eslint-disable-next-line no-await-in-loop -- Screenshot must be taken at current scroll position
+            const screenshot = await page.screenshot(screenshotConf);
+            sectionScreenshots.push(screenshot);
+
+            // eslint-disable-next-line no-await-in-loop -- Must scroll sequentially to next position
+            await scrollDown(page);
+        }
+
+        try {
             const stitchedScreenshot = await stitchImages(
                 sectionScreenshots,
                 pageSizeInfo.viewport.width,
                 pageSizeInfo.extraHeight
             );
-            fs.writeFileSync(path, stitchedScreenshot);
+            // Save the image in the file type and quality that Puppeteer would have saved the screenshot in.
+            // Avif screenshots are captured as png images and converted after the screenshot is taken.
+            await encodeImage(stitchedScreenshot, {
+                ...url,
+                fileType: screenshotConfig.type ?? 'png',
+            }).toFile(path);
+        } catch (err) {
+            throw new Error(
+                `Error while stitching the full page screenshot together. ${err.message}`
+            );
         }
-    } catch (err) {
-        logError('Error while taking the full page screenshot', err);
     }
+    return stitched;
 };
 
 export default getFullPageScreenshot;
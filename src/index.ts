@@ -8,7 +8,7 @@ import { fileURLToPath } from 'url';
 
 // Library
 import { maxDelay } from './config.js';
-import { logSuccess } from './lib/log.js';
+import compareHandler from './compare.js';
 import init from './init.js';
 import screenshotHandler from './screenshot.js';
 
@@ -27,14 +27,25 @@ const program = new Command();
 program
     .version(thisPackageJson.version)
     .description(thisPackageJson.description)
+    .option(
+        '--avif',
+        'Set the image type for screenshots to be "avif". Alternate method to using -t.'
+    )
     .option(
         '-b, --base <string>',
         'The base URL value. If set then the URL will be appended to this value.'
     )
     .option(
         '--blockAdsAndCookieNotices <boolean>',
-        'Whether or not to block ads and cookie notices. This will block all ads and cookie notices on the page.',
-        true
+        'Whether or not to block ads and cookie notices. This will block all ads and cookie notices on the page. Default is true.'
+    )
+    .option(
+        '--blockRequests <string...>',
+        'The requests to block. Use glob or regular expression URL patterns, resource types like "font" or "media", or "third-party".'
+    )
+    .option(
+        '--captureAt <integer...>',
+        'The number of milliseconds after the page starts loading to take a screenshot at. Use it to show the page part way through loading.'
     )
     .option('--clipH <integer>', 'The height of clip area.')
     .option('--clipW <integer>', 'The width of clip area.')
@@ -46,6 +57,40 @@ program
         '--clipY <integer>',
         'The y-coordinate of top-left corner of clip area.'
     )
+    .addOption(
+        new Option(
+            '--colorScheme <string>',
+            'The color scheme to emulate. "both" takes a screenshot in each of the light and dark color schemes.'
+        ).choices(['both', 'dark', 'light'])
+    )
+    .option(
+        '--concurrency <integer>',
+        'The maximum number of screenshots to take at the same time. Default is 10. Lower it if the browser runs out of memory.'
+    )
+    .option(
+        '--cookies <string>',
+        'The path to a JSON file that holds the cookies to set before loading each page.'
+    )
+    .option(
+        '--cpuThrottle <number>',
+        'How many times slower the CPU should be. For example, 4 is four times slower.'
+    )
+    .option(
+        '--crawl',
+        'Crawl the same origin links on each page and get screenshots of the pages that are found.'
+    )
+    .option(
+        '--crawlDepth <integer>',
+        'The maximum link depth to crawl from the starting URLs. Default is 3.'
+    )
+    .option(
+        '--crawlIgnoreParams <string...>',
+        'The query string parameters to ignore when comparing crawled URLs. Glob and regular expression patterns are supported.'
+    )
+    .option(
+        '--crawlLimit <integer>',
+        'The maximum number of pages to get screenshots of when crawling. Default is 100.'
+    )
     .option(
         '-c, --config <string...>',
         'The name of the JSON config file to use to get the screenshots. If this is set all other arguments are ignored.'
@@ -54,20 +99,68 @@ program
         '-D, --delay <integer>',
         `The number of milliseconds to delay after loading before taking a picture of the page. Can not be greater than ${maxDelay}.`
     )
+    .option(
+        '--device <string>',
+        'The name of the device to emulate. For example, "iPhone 15" or "Pixel 5". The device sets the viewport size, pixel ratio, and user agent.'
+    )
     .option(
         '-d, --dir <string>',
         'The directory relative to where the script is run to output the screenshots to.'
     )
+    .option(
+        '--disableAnimations',
+        'Stop CSS animations, transitions, videos, and animation loops so that each screenshot is the same.'
+    )
+    .addOption(
+        new Option(
+            '--failOnError <string>',
+            'When to exit with an error code because screenshots failed. "any" screenshot failed, "all" of them failed, or "never". Default is "any".'
+        ).choices(['all', 'any', 'never'])
+    )
     .option('-f, --fit', 'Fit the screenshot to the provided height and width.')
+    .option(
+        '--fixedTime <string>',
+        'The date and time that Date.now() returns in the page. A date string like "2025-01-01T12:00:00Z" or milliseconds since the epoch.'
+    )
+    .addOption(
+        new Option(
+            '--forcedColors [string]',
+            'Emulate forced colors, like the Windows high contrast mode. Default is "active" if the option is set without a value.'
+        ).choices(['active', 'none'])
+    )
     .option(
         '-F, --fullScreen <boolean>',
         'Whether or not to have the screenshot capture the full width and height of the page.',
         true
     )
+    .option(
+        '--geolocation <string>',
+        'The geolocation to emulate as a "latitude,longitude" string. For example, "48.8566,2.3522".'
+    )
+    .option(
+        '--har <string>',
+        'The path to a HAR file to record the responses to, or to replay them from with --harMode replay.'
+    )
+    .addOption(
+        new Option(
+            '--harMode <string>',
+            'Whether to record the responses to the HAR file or to respond to the requests from it. Default is "record".'
+        ).choices(['record', 'replay'])
+    )
+    .addOption(
+        new Option(
+            '--harNotFound <string>',
+            'What to do with requests that are not in the HAR file when replaying. "abort" them or "fallback" to the network. Default is "abort".'
+        ).choices(['abort', 'fallback'])
+    )
+    .option(
+        '--headers <string...>',
+        // eslint-disable-next-line no-template-curly-in-string -- The ${NAME} syntax is shown in the help text
+        'An extra HTTP header to send with every request. The format is "Name: value". Environment variables can be used with ${NAME}.'
+    )
     .option(
         '-h, --height <integer>',
-        'Integer height of the viewport to take the screenshot in. Use "--fit" if you want the screenshot to only capture the viewport width and height.',
-        '900'
+        'Integer height of the viewport. Default is 900, or the height of the device if "--device" is set. Use "--fit" to only capture the viewport.'
     )
     .option(
         '--hideSelector <string...>',
@@ -77,30 +170,118 @@ program
         '--hideStitchSelector <string...>',
         'The CSS selector of the element(s) to hide during the screenshot process if screenshots are stitched together. The elements are hidden after the first scroll. Common usage is to hide a sticky header or floating element.'
     )
+    .option(
+        '--httpAuth <string>',
+        // eslint-disable-next-line no-template-curly-in-string -- The ${NAME} syntax is shown in the help text
+        'The HTTP basic authentication username and password. The format is "username:password". Environment variables can be used with ${NAME}.'
+    )
+    .option(
+        '--injectCss <string...>',
+        'CSS to add to the page after it loads. It can be the CSS or the path to a .css file.'
+    )
+    .option(
+        '--injectScript <string...>',
+        'JavaScript to run in the page after it loads. It can be the JavaScript or the path to a .js file.'
+    )
     .option(
         '--jpg',
         'Set the image type for screenshots to be "jpg". Alternate method to using --type.'
     )
+    .option(
+        '--locale <string>',
+        'The locale to request the page in. For example, "fr-FR". It sets the Accept-Language header.'
+    )
+    .option(
+        '--manifest <boolean>',
+        'Whether or not to write a manifest.json file in the directory that describes each screenshot. Default is true.'
+    )
+    .option(
+        '--maskColor <string>',
+        'The CSS color of the boxes that cover the masked elements. Default is "#ff00ff".'
+    )
+    .option(
+        '--maskSelector <string...>',
+        'The CSS selector of the element(s) to cover with a solid box before the screenshot is taken. The elements keep their space on the page.'
+    )
+    .addOption(
+        new Option(
+            '--media <string>',
+            'The CSS media type to emulate.'
+        ).choices(['print', 'screen'])
+    )
     .option(
         '-n, --name <string>',
         'The name of the file to save the screenshot as. Only applies to the first URL.'
     )
+    .option(
+        '--network <string>',
+        'The network speed to emulate. "Slow 3G", "Fast 3G", "Slow 4G", or "Fast 4G".'
+    )
+    .option(
+        '--optimize',
+        'Optimize the images after they are saved to reduce the file size.'
+    )
+    .option(
+        '--optimizeMaxDimension <integer>',
+        'The maximum width and height of the optimized images. Larger images are scaled down to fit. Default is 0 for no limit.'
+    )
     .option(
         '--pixelRatio <number>',
         'The device pixel ratio to use for the screenshot. Default is 1.'
     )
+    .option(
+        '--pdf',
+        'Save the page as a PDF instead of an image. Alternate method to using -t.'
+    )
+    .option(
+        '--pdfFormat <string>',
+        'The paper format of the PDF. For example, "letter" or "a4". Default is "letter".'
+    )
+    .option('--pdfLandscape', 'Use the landscape orientation for the PDF.')
+    .option(
+        '--pdfMargin <string>',
+        'The CSS length of the PDF page margins. For example, "1cm". Default is 0.'
+    )
+    .addOption(
+        new Option(
+            '--pdfMedia <string>',
+            'The CSS media type to use for the PDF. Default is "print".'
+        ).choices(['print', 'screen'])
+    )
+    .option(
+        '--pdfPrintBackground <boolean>',
+        'Whether or not to print the background colors and images in the PDF. Default is true.'
+    )
     .option(
         '--png',
         'Set the image type for screenshots to be "png". Alternate method to using -t.'
     )
     .option(
         '-q, --quality <integer>',
-        'The quality of the jpg image, between 0-100. Not applicable to png image.',
+        'The quality of the avif, jpg, and webp images, between 0-100. Not applicable to png images unless they are optimized with a palette.',
         '100'
     )
+    .addOption(
+        new Option(
+            '--reducedMotion [string]',
+            'Emulate the reduced motion preference. Default is "reduce" if the option is set without a value.'
+        ).choices(['no-preference', 'reduce'])
+    )
+    .option(
+        '--report',
+        'Save an index.html report in the directory that shows each screenshot grouped by URL and size.'
+    )
+    .option(
+        '--retries <integer>',
+        'The number of times to retry a screenshot that failed or timed out. Default is 0.'
+    )
+    .option(
+        '--rewriteRequests <string...>',
+        'Send requests to a different URL. The format is FROM=TO where FROM is the start of the URL or a regular expression.'
+    )
     .option(
         '-s, --size <string...>',
-        'A viewport size to capture the screenshot in. The format is WIDTHxHEIGHT. For example, 800x400 for a width of 800px and a height of 400px. Use "--fit" if you want the screenshot to only capture the viewport width and height.',
+        'A viewport size to capture the screenshot in, like 800x400, or a device name like "iPhone 15". Use "--fit" to only capture the viewport.',
         []
     )
     .option(
@@ -108,24 +289,79 @@ program
         'The number of milliseconds to delay after each scroll to allow the content to load. This is used to allow time for lazy loading of images or animations that are triggered by the scroll to complete.',
         '400'
     )
+    .option(
+        '--selector <string...>',
+        'The CSS selector of the element(s) to take screenshots of instead of the page. A screenshot is taken of each element that matches.'
+    )
+    .option(
+        '--selectorPadding <integer>',
+        'The number of pixels of padding to include around each element screenshot. Default is 0.'
+    )
+    .option(
+        '--sitemap <string...>',
+        'The URL or file path of a sitemap.xml file to get the URLs from. Sitemap index files and gzipped sitemaps are supported.'
+    )
+    .option(
+        '--sitemapExclude <string...>',
+        'A glob or regular expression pattern. Sitemap URLs that match it are not used.'
+    )
+    .option(
+        '--sitemapInclude <string...>',
+        'A glob or regular expression pattern. If set, only the sitemap URLs that match it are used.'
+    )
     .option(
         '--stitchThreshold <integer>',
         "This determines the maximum pixel height of the screenshot that can be taken natively before falling back to stitching screenshots together. It's based on the maximum texture size supported by Chromium's software GL backend. Visit https://webglreport.com/ in Chrome and check the 'Max Texture Size' value to see the maximum texture size supported by the browser.",
         '16000'
     )
+    .option(
+        '--thumbnailCrop <string>',
+        'The aspect ratio to crop the thumbnails to from the top of the screenshot. For example, "16:9".'
+    )
+    .option(
+        '--thumbnails <integer...>',
+        'The width of each thumbnail to save from the screenshot. The width is added to the end of the thumbnail file name.'
+    )
+    .option(
+        '--timeout <integer>',
+        'The maximum number of milliseconds to wait for the page to load and for the screenshot to be taken. Default is 60000.'
+    )
+    .option(
+        '--timezone <string>',
+        'The IANA time zone to emulate. For example, "Europe/Paris".'
+    )
     .addOption(
         new Option(
             '-t, --type <string>',
             'The file type to use for the screenshots.'
         )
-            .choices(['jpg', 'png', 'webp'])
+            .choices(['avif', 'jpg', 'pdf', 'png', 'webp'])
             .default('jpg')
     )
     .option('-u, --url <string...>', 'URL to get the screenshot of.', [])
     .option(
         '-w, --width <integer>',
-        'Integer width of the viewport to take the screenshot in.',
-        '1300'
+        'Integer width of the viewport to take the screenshot in. Default is 1300, or the width of the device if "--device" is set.'
+    )
+    .option(
+        '--waitForFonts [integer]',
+        'Wait for the web fonts to load before taking the screenshot. Optionally set the number of milliseconds to wait.'
+    )
+    .option(
+        '--waitForFunction <string>',
+        'A JavaScript expression that is evaluated in the page. The screenshot waits until it returns a truthy value.'
+    )
+    .option(
+        '--waitForImages [integer]',
+        'Wait for all images to load, including lazy loaded images, before taking the screenshot. Optionally set the number of milliseconds to wait.'
+    )
+    .option(
+        '--waitForNetworkIdle [integer]',
+        'Wait until there are no network connections for 500 milliseconds before taking the screenshot. Optionally set the milliseconds.'
+    )
+    .option(
+        '--waitForSelector <string>',
+        'The CSS selector of an element to wait for before taking the screenshot.'
     )
     .addOption(
         new Option(
@@ -139,7 +375,6 @@ program
     )
     .action(async (options) => {
         await screenshotHandler(options);
-        logSuccess('All screenshots have been taken.');
     });
 
 // Custom help output
@@ -156,6 +391,10 @@ program.addHelpText(
     page-shots init
     page-shots
     page-shots -c myurls.json
+    page-shots --sitemap https://www.mysite.com/sitemap.xml --sitemapExclude "/blog/**"
+    page-shots -u https://www.mysite.com --crawl --crawlDepth 2 --crawlLimit 50
+    page-shots compare baseline current
+    page-shots compare baseline current --threshold 0.01 --diffDir diffs
 `
 );
 
@@ -173,5 +412,33 @@ program
         init.build();
     });
 
+// Set up the action to compare screenshots against a baseline set of screenshots.
+program
+    .command('compare <baselineDir> <currentDir>')
+    .description(
+        'Compare the screenshots in the current directory against the screenshots with the same name in the baseline directory.'
+    )
+    .option(
+        '--diffDir <string>',
+        'The directory to save the diff images in.',
+        'diff'
+    )
+    .option(
+        '--threshold <number>',
+        'The maximum ratio (0-1) of mismatched pixels allowed before the comparison fails.',
+        '0'
+    )
+    .option(
+        '--tolerance <integer>',
+        'The maximum difference (0-255) allowed between the color channels of two pixels before they are considered different.',
+        '0'
+    )
+    .action(async (baselineDir, currentDir, options) => {
+        const passed = await compareHandler(baselineDir, currentDir, options);
+        if (!passed) {
+            process.exit(1);
+        }
+    });
+
 // Parse the command line arguments
 program.parse();
@@ -0,0 +1,137 @@
+/* ===========================================================================
+    Action functions
+    Actions are run in order before the screenshot is taken so that the page
+    can be changed first. For example, to open a menu or dismiss a modal.
+=========================================================================== */
+
+import { type KeyInput, type Page } from 'puppeteer';
+
+// Library
+import { logInfo } from './log.js';
+import {
+    type Action,
+    type ActionType,
+    type ScreenshotResult,
+    type UrlData,
+} from '../types.js';
+
+// The action types and the values that they require
+export const actionTypes: Record<ActionType, string[]> = {
+    click: ['selector'],
+    evaluate: ['script'],
+    hover: ['selector'],
+    press: ['key'],
+    screenshot: [],
+    scrollTo: [],
+    type: ['selector', 'text'],
+    waitForFunction: ['script'],
+    waitForSelector: ['selector'],
+};
+
+/**
+ * Gets the name of a "screenshot" action step
+ *
+ * @param {Action} action The action
+ * @param {number} index The index of the action
+ * @returns {string}
+ */
+const getStepName = (action: Action, index: number): string =>
+    action.name ?? `step-${index}`;
+
+/**
+ * Runs a single action
+ *
+ * @param {Page} page The page object
+ * @param {Action} action The action to run
+ * @param {number} timeout The maximum number of milliseconds to wait for an element or function
+ * @returns {Promise<void>}
+ */
+const runAction = async (
+    page: Page,
+    action: Action,
+    timeout: number
+): Promise<void> => {
+    switch (action.action) {
+        case 'click':
+            await page.locator(action.selector).setTimeout(timeout).click();
+            break;
+        case 'evaluate':
+            await page.evaluate(action.script);
+            break;
+        case 'hover':
+            await page.locator(action.selector).setTimeout(timeout).hover();
+            break;
+        case 'press':
+            if (action.selector) {
+                await page.waitForSelector(action.selector, { timeout });
+                await page.focus(action.selector);
+            }
+            await page.keyboard.press(action.key as KeyInput);
+            break;
+        case 'scrollTo':
+            if (action.selector) {
+                const element = await page.waitForSelector(action.selector, {
+                    timeout,
+                });
+                await element.evaluate((el) => {
+                    el.scrollIntoView({ behavior: 'instant', block: 'start' });
+                });
+            } else {
+                await page.evaluate((y) => {
+                    window.scrollTo({ behavior: 'instant', left: 0, top: y });
+                }, action.y ?? 0);
+            }
+            break;
+        case 'type':
+            await page
+                .locator(action.selector)
+                .setTimeout(timeout)
+                .fill(action.text);
+            break;
+        case 'waitForFunction':
+            await page.waitForFunction(action.script, { timeout });
+            break;
+        case 'waitForSelector':
+            await page.waitForSelector(action.selector, { timeout });
+            break;
+        default:
+            break;
+    }
+};
+
+/**
+ * Runs the actions for the URL in order
+ *
+ * If an action fails then the index of the action is set on the result and an error is thrown.
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @param {ScreenshotResult} result The screenshot result
+ * @param {Function} takeStepScreenshot The function to take a screenshot for a "screenshot" action step
+ * @returns {Promise<void>}
+ */
+export const runActions = async (
+    page: Page,
+    url: UrlData,
+    result: ScreenshotResult,
+    takeStepScreenshot: (step: string) => Promise<void>
+): Promise<void> => {
+    for (const [index, action] of url.actions.entries()) {
+        try {
+            if (action.action === 'screenshot') {
+                // eslint-disable-next-line no-await-in-loop -- The actions must run in order
+                await takeStepScreenshot(getStepName(action, index));
+            } else {
+                logInfo(`Running the ${action.action} action on ${url.url}`);
+                // eslint-disable-next-line no-await-in-loop -- The actions must run in order
+                await runAction(page, action, url.timeout);
+            }
+        } catch (err) {
+            // eslint-disable-next-line no-param-reassign -- The failed action is recorded on the result
+            result.failedAction = index;
+            throw new Error(
+                `The ${action.action} action at index ${index} failed. ${err.message}`
+            );
+        }
+    }
+};
@@ -0,0 +1,103 @@
+/* ===========================================================================
+    Animation functions
+    Carousels, CSS animations, and videos make each screenshot slightly
+    different. These functions stop them so that screenshots can be compared.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+
+// The id of the style element that disables the CSS animations and transitions
+const styleId = 'page-shots-disable-animations';
+
+// The CSS that disables the animations and transitions and hides the blinking text caret
+const styles = `
+*, *::before, *::after {
+    animation: none !important;
+    caret-color: transparent !important;
+    scroll-behavior: auto !important;
+    transition: none !important;
+}
+`;
+
+/**
+ * Sets the time that Date.now(), new Date() and Date() return in the page.
+ * It's set before any of the page scripts run so it must be called before the page is loaded.
+ *
+ * Dates that are created from a value, like new Date(2025, 0, 1), aren't changed.
+ *
+ * @param {Page} page The page object
+ * @param {number} time The number of milliseconds since the epoch
+ * @returns {Promise<void>}
+ */
+export const setFixedTime = async (page: Page, time: number): Promise<void> => {
+    await page.evaluateOnNewDocument((fixedTime) => {
+        const RealDate = Date;
+        RealDate.now = () => fixedTime;
+        // A proxy is used instead of a subclass so that Date() can still be called without "new".
+        // The static methods and "instanceof Date" checks use the real Date object.
+        globalThis.Date = new Proxy(RealDate, {
+            // Date() returns the date as a string
+            apply: () => new RealDate(fixedTime).toString(),
+            construct: (target, args, newTarget) =>
+                Reflect.construct(
+                    target,
+                    args.length === 0 ? [fixedTime] : args,
+                    newTarget
+                ),
+        });
+    }, time);
+};
+
+/**
+ * Stops the animations on the page
+ *
+ * - CSS animations and transitions are disabled.
+ * - Animations that were started with JavaScript are finished, or cancelled if they repeat forever.
+ * - Videos are paused at the first frame.
+ * - The blinking text caret is hidden.
+ * - requestAnimationFrame loops and intervals, like the ones that move carousels, are stopped.
+ *
+ * It's safe to call more than once.
+ *
+ * @param {Page} page The page object
+ * @returns {Promise<void>}
+ */
+export const disableAnimations = async (page: Page): Promise<void> => {
+    await page.evaluate(
+        (id, css) => {
+            if (!document.getElementById(id)) {
+                const style = document.createElement('style');
+                style.id = id;
+                style.textContent = css;
+                document.head.appendChild(style);
+            }
+
+            document.getAnimations().forEach((animation) => {
+                try {
+                    animation.finish();
+                } catch {
+                    // Animations that repeat forever can't be finished
+                    animation.cancel();
+                }
+            });
+
+            document.querySelectorAll('video').forEach((video) => {
+                video.pause();
+                video.removeAttribute('autoplay');
+                // eslint-disable-next-line no-param-reassign -- Must reset the video to the first frame
+                video.currentTime = 0;
+            });
+
+            // Stop the animation loops. The callbacks are never called so the loops end.
+            window.requestAnimationFrame = () => 0;
+
+            // Clear the intervals. Interval ids are numbers that increase, so every id up to a new one is cleared.
+            const lastInterval = window.setInterval(() => {}, 1000);
+            for (let interval = 1; interval <= lastInterval; interval += 1) {
+                window.clearInterval(interval);
+            }
+        },
+        styleId,
+        styles
+    );
+};
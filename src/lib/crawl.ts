@@ -0,0 +1,71 @@
+/* ===========================================================================
+    Crawl functions
+    Collects the same origin links on a page so that they can be queued
+    to get screenshots of.
+=========================================================================== */
+
+import { Page } from 'puppeteer';
+
+// Library
+import { patternToRegExp } from './pattern.js';
+
+// Links to files with these extensions are not web pages and are not crawled
+const fileExtensionRegex =
+    /\.(avi|css|csv|docx?|gif|gz|ico|jpe?g|js|json|mov|mp3|mp4|pdf|png|pptx?|svg|txt|webp|xlsx?|xml|zip)$/i;
+
+/**
+ * Normalizes a URL so that the same page is only crawled once.
+ *
+ * The hash is removed and any query string parameters that match the ignore patterns are removed.
+ *
+ * @param {string} url The URL to normalize
+ * @param {string[]} ignoreParams The glob or regular expression patterns for the query string parameters to ignore
+ * @returns {string} The normalized URL
+ */
+export const normalizeUrl = (url: string, ignoreParams: string[]): string => {
+    const urlObject = new URL(url);
+    urlObject.hash = '';
+    if (ignoreParams.length > 0) {
+        const patterns = ignoreParams.map((pattern) =>
+            patternToRegExp(pattern)
+        );
+        [...urlObject.searchParams.keys()].forEach((param) => {
+            if (patterns.some((pattern) => pattern.test(param))) {
+                urlObject.searchParams.delete(param);
+            }
+        });
+    }
+    return urlObject.toString();
+};
+
+/**
+ * Gets the unique links on the page that have the same origin as the URL
+ *
+ * @param {Page} page The page object
+ * @param {string} url The URL of the page
+ * @returns {Promise<string[]>} The links
+ */
+export const getPageLinks = async (
+    page: Page,
+    url: string
+): Promise<string[]> => {
+    const { origin } = new URL(url);
+    const links = await page.$$eval('a[href]', (anchors) =>
+        anchors.map((anchor) => (anchor as HTMLAnchorElement).href)
+    );
+    return [
+        ...new Set(
+            links.filter((link) => {
+                try {
+                    const linkObject = new URL(link);
+                    return (
+                        linkObject.origin === origin &&
+                        !fileExtensionRegex.test(linkObject.pathname)
+                    );
+                } catch {
+                    return false;
+                }
+            })
+        ),
+    ];
+};
@@ -0,0 +1,33 @@
+/* ===========================================================================
+    Device emulation functions
+    Uses the device descriptors that are built into Puppeteer.
+    https://pptr.dev/api/puppeteer.knowndevices
+=========================================================================== */
+
+import { type Device, KnownDevices } from 'puppeteer';
+
+/**
+ * Gets the Puppeteer device name that matches the name.
+ *
+ * The match is case-insensitive so that "iphone 15" and "iPhone 15" are the same device.
+ *
+ * @param {string} name The device name
+ * @returns {string|false} The Puppeteer device name or false if the device is not known
+ */
+export const getDeviceName = (name: string): string | false => {
+    const lowerName = name.trim().toLowerCase();
+    return (
+        Object.keys(KnownDevices).find(
+            (deviceName) => deviceName.toLowerCase() === lowerName
+        ) ?? false
+    );
+};
+
+/**
+ * Gets the Puppeteer device descriptor
+ *
+ * @param {string} name The Puppeteer device name
+ * @returns {Device} The device descriptor
+ */
+export const getDevice = (name: string): Device =>
+    KnownDevices[name as keyof typeof KnownDevices];
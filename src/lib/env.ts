@@ -0,0 +1,26 @@
+/* ===========================================================================
+    Environment variable functions
+    Secrets like passwords can be set in environment variables so that they
+    don't have to be saved in plain text in the JSON config file.
+=========================================================================== */
+
+import { logError } from './log.js';
+
+/**
+ * Replaces the ${NAME} environment variable references in a value with the environment variable values.
+ *
+ * If the environment variable is not set then an error is logged and the reference is replaced with an empty string.
+ *
+ * @param {string} value The value to replace the environment variables in
+ * @returns {string} The value with the environment variables replaced
+ */
+const replaceEnvVariables = (value: string): string =>
+    value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, name) => {
+        if (typeof process.env[name] === 'string') {
+            return process.env[name];
+        }
+        logError(`The environment variable "${name}" is not set`);
+        return '';
+    });
+
+export default replaceEnvVariables;
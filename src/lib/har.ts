@@ -0,0 +1,478 @@
+/* ===========================================================================
+    HAR functions
+    Records the responses that the pages get into a HAR file, and replays them
+    from the HAR file later. Replaying the responses makes the screenshots the
+    same each time, even if the live content changes, and it works without
+    network access.
+    http://www.softwareishard.com/blog/har-12-spec/
+=========================================================================== */
+
+import fs from 'fs-extra';
+import { dirname } from 'node:path';
+import { setTimeout } from 'node:timers/promises';
+import {
+    DEFAULT_INTERCEPT_RESOLUTION_PRIORITY,
+    type HTTPRequest,
+    type HTTPResponse,
+    type Page,
+} from 'puppeteer';
+
+// Library
+import { logWarning } from './log.js';
+import { type Har, type UrlData } from '../types.js';
+
+// A header in the HAR file
+type HarHeader = {
+    name: string;
+    value: string;
+};
+
+// A request and its response in the HAR file
+type HarEntry = {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: [];
+        headers: HarHeader[];
+        queryString: HarHeader[];
+        postData?: {
+            mimeType: string;
+            text: string;
+        };
+        headersSize: number;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: [];
+        headers: HarHeader[];
+        content: {
+            size: number;
+            mimeType: string;
+            text?: string;
+            encoding?: string;
+        };
+        redirectURL: string;
+        headersSize: number;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: {
+        send: number;
+        wait: number;
+        receive: number;
+    };
+};
+
+// The responses that are being recorded for a page
+type PageRecording = {
+    // Whether or not the page is done. Responses that finish after that are not recorded.
+    done: boolean;
+    // The responses that are still being read
+    pending: Promise<void>[];
+};
+
+// The headers that describe the original response body. The replayed body is already decoded.
+const skippedResponseHeaders = [
+    'content-encoding',
+    'content-length',
+    'transfer-encoding',
+];
+
+// The headers that are redacted in the HAR file because they can have passwords, tokens, and session ids.
+// The names of the extra headers from the "headers" setting are redacted too.
+const redactedHeaders = [
+    'authorization',
+    'cookie',
+    'proxy-authorization',
+    'set-cookie',
+];
+
+// The value that the redacted headers are saved with
+const redactedValue = '[REDACTED]';
+
+// The maximum number of milliseconds to wait for the response bodies to be read after the screenshot is taken
+const recordingTimeout = 10000;
+
+// The priority that the recorded responses are sent with so that they win over requests that continue
+const priority = DEFAULT_INTERCEPT_RESOLUTION_PRIORITY + 1;
+
+/**
+ * Converts a headers object to the HAR headers format
+ *
+ * Puppeteer joins the values of a header that is set more than once with a new line,
+ * so they are split back into separate headers.
+ * The values of the redacted headers are replaced so that secrets aren't saved in the HAR file.
+ *
+ * @param {Record<string, string>} headers The headers object
+ * @param {string[]} redacted The lowercase names of the headers to redact
+ * @returns {HarHeader[]}
+ */
+export const toHarHeaders = (
+    headers: Record<string, string>,
+    redacted: string[]
+): HarHeader[] =>
+    Object.entries(headers).flatMap(([name, value]) => {
+        if (redacted.includes(name.toLowerCase())) {
+            return [{ name, value: redactedValue }];
+        }
+        return value
+            .split('\n')
+            .map((headerValue) => ({ name, value: headerValue }));
+    });
+
+/**
+ * Gets the lowercase names of the headers to redact for the URL
+ *
+ * @param {UrlData} url The URL object
+ * @returns {string[]}
+ */
+export const getRedactedHeaders = (url: UrlData): string[] => [
+    ...redactedHeaders,
+    ...Object.keys(url.headers).map((name) => name.toLowerCase()),
+];
+
+/**
+ * Gets the key that a request is matched with
+ *
+ * @param {string} method The request method
+ * @param {string} url The request URL
+ * @returns {string}
+ */
+const getRequestKey = (method: string, url: string): string =>
+    `${method.toUpperCase()} ${url}`;
+
+/**
+ * Tests to see if the request can be recorded or replayed
+ *
+ * Data URLs and other URLs that don't go to the network are skipped.
+ *
+ * @param {string} url The request URL
+ * @returns {boolean}
+ */
+const isNetworkUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+/**
+ * Creates the HAR entry for a response
+ *
+ * @param {HTTPResponse} response The response
+ * @param {number} startTime When the request started, in milliseconds since the epoch
+ * @param {string[]} redacted The lowercase names of the headers to redact
+ * @returns {Promise<HarEntry>}
+ */
+const createEntry = async (
+    response: HTTPResponse,
+    startTime: number,
+    redacted: string[]
+): Promise<HarEntry> => {
+    const request = response.request();
+    const requestHeaders = request.headers();
+    const responseHeaders = response.headers();
+    const status = response.status();
+    // Redirects don't have a body
+    const body =
+        status >= 300 && status < 400
+            ? Buffer.alloc(0)
+            : Buffer.from(await response.buffer());
+    const url = new URL(request.url());
+    const entry: HarEntry = {
+        startedDateTime: new Date(startTime).toISOString(),
+        time: Date.now() - startTime,
+        request: {
+            method: request.method(),
+            url: request.url(),
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(requestHeaders, redacted),
+            queryString: [...url.searchParams.entries()].map(
+                ([name, value]) => ({ name, value })
+            ),
+            headersSize: -1,
+            bodySize: -1,
+        },
+        response: {
+            status,
+            statusText: response.statusText(),
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(responseHeaders, redacted),
+            content: {
+                size: body.length,
+                mimeType: responseHeaders['content-type'] ?? '',
+                // The body is saved as base64 so that images and fonts are saved as is
+                text: body.toString('base64'),
+                encoding: 'base64',
+            },
+            redirectURL: responseHeaders.location ?? '',
+            headersSize: -1,
+            bodySize: body.length,
+        },
+        cache: {},
+        timings: {
+            send: 0,
+            wait: Date.now() - startTime,
+            receive: 0,
+        },
+    };
+    const postData = request.postData();
+    if (postData !== undefined) {
+        entry.request.postData = {
+            mimeType: requestHeaders['content-type'] ?? '',
+            text: postData,
+        };
+        entry.request.bodySize = postData.length;
+    }
+    return entry;
+};
+
+/**
+ * Holds the HAR files that are recorded to and replayed from
+ */
+export class HarArchives {
+    /**
+     * Holds the responses that are being recorded for each page
+     *
+     * @type {Map<Page, PageRecording>}
+     */
+    #pages: Map<Page, PageRecording>;
+
+    /**
+     * Holds the entries that were recorded for each HAR file
+     *
+     * @type {Map<string, Map<string, HarEntry>>}
+     */
+    #recordings: Map<string, Map<string, HarEntry>>;
+
+    /**
+     * Holds the entries that were loaded from each HAR file that is replayed, keyed by the request key
+     *
+     * @type {Map<string, Map<string, HarEntry[]>>}
+     */
+    #replays: Map<string, Map<string, HarEntry[]>>;
+
+    /**
+     * Constructor
+     */
+    constructor() {
+        this.#pages = new Map();
+        this.#recordings = new Map();
+        this.#replays = new Map();
+    }
+
+    /**
+     * Records or replays the requests for the URL. This must be called before the page is loaded.
+     *
+     * @param {Page} page The page object
+     * @param {UrlData} url The URL object
+     * @returns {Promise<void>}
+     */
+    async apply(page: Page, url: UrlData): Promise<void> {
+        if (!url.har) {
+            return;
+        }
+        if (url.har.mode === 'record') {
+            this.#record(page, url.har, getRedactedHeaders(url));
+        } else {
+            await this.#replay(page, url.har);
+        }
+    }
+
+    /**
+     * Waits for the recorded responses of the page to be read.
+     * This must be called before the page is closed.
+     *
+     * @param {Page} page The page object
+     * @returns {Promise<void>}
+     */
+    async finish(page: Page): Promise<void> {
+        const recording = this.#pages.get(page);
+        if (!recording) {
+            return;
+        }
+        // Long running responses, like event streams, may never finish so the wait is limited
+        await Promise.race([
+            Promise.allSettled(recording.pending),
+            // The timer doesn't keep the process running after the responses are read
+            setTimeout(recordingTimeout, undefined, { ref: false }),
+        ]);
+        recording.done = true;
+        this.#pages.delete(page);
+    }
+
+    /**
+     * Saves the recorded HAR files
+     *
+     * @returns {string[]} The paths of the HAR files that were saved
+     */
+    save(): string[] {
+        const paths: string[] = [];
+        this.#recordings.forEach((entries, path) => {
+            const har = {
+                log: {
+                    version: '1.2',
+                    creator: { name: 'page-shots', version: '' },
+                    pages: [],
+                    entries: [...entries.values()],
+                },
+            };
+            fs.ensureDirSync(dirname(path));
+            fs.writeJsonSync(path, har, { spaces: 4 });
+            paths.push(path);
+        });
+        return paths;
+    }
+
+    /**
+     * Records the responses that the page gets
+     *
+     * The first response for each request is recorded, so a request that is made by more than one
+     * page or size is only saved once.
+     *
+     * @param {Page} page The page object
+     * @param {Har} har The HAR settings
+     * @param {string[]} redacted The lowercase names of the headers to redact
+     */
+    #record(page: Page, har: Har, redacted: string[]) {
+        if (!this.#recordings.has(har.path)) {
+            this.#recordings.set(har.path, new Map());
+        }
+        const entries = this.#recordings.get(har.path);
+        const recording: PageRecording = { done: false, pending: [] };
+        this.#pages.set(page, recording);
+        const startTimes = new Map<HTTPRequest, number>();
+        page.on('request', (request) => {
+            startTimes.set(request, Date.now());
+        });
+        page.on('response', (response) => {
+            const request = response.request();
+            const requestUrl = request.url();
+            if (!isNetworkUrl(requestUrl)) {
+                return;
+            }
+            // The request body is part of the key so that each form post is recorded
+            const key = `${getRequestKey(request.method(), requestUrl)} ${request.postData() ?? ''}`;
+            const startTime = startTimes.get(request) ?? Date.now();
+            recording.pending.push(
+                createEntry(response, startTime, redacted)
+                    .then((entry) => {
+                        if (!recording.done && !entries.has(key)) {
+                            entries.set(key, entry);
+                        }
+                    })
+                    .catch(() => {
+                        // The body couldn't be read, for example, because the page was closed. The response isn't recorded.
+                    })
+            );
+        });
+    }
+
+    /**
+     * Responds to the requests that the page makes with the responses from the HAR file
+     *
+     * Requests that aren't in the HAR file are aborted, or sent to the network if the "notFound" setting is "fallback".
+     * It uses Puppeteer's cooperative request interception so that it works alongside the ad blocker and the request rules.
+     *
+     * @param {Page} page The page object
+     * @param {Har} har The HAR settings
+     * @returns {Promise<void>}
+     */
+    async #replay(page: Page, har: Har): Promise<void> {
+        const entries = this.#loadEntries(har.path);
+        await page.setRequestInterception(true);
+        page.on('request', (request) => {
+            if (request.isInterceptResolutionHandled()) {
+                return;
+            }
+            const requestUrl = request.url();
+            const matches = isNetworkUrl(requestUrl)
+                ? entries.get(getRequestKey(request.method(), requestUrl))
+                : undefined;
+            if (matches) {
+                // Use the entry with the same request body if there is one so that form posts get the right response
+                const postData = request.postData();
+                const entry =
+                    matches.find(
+                        (match) => match.request.postData?.text === postData
+                    ) ?? matches[0];
+                const headers: Record<string, string[]> = {};
+                entry.response.headers.forEach(({ name, value }) => {
+                    const headerName = name.toLowerCase();
+                    // The redacted headers, like "set-cookie", would set the wrong values
+                    if (
+                        !skippedResponseHeaders.includes(headerName) &&
+                        value !== redactedValue
+                    ) {
+                        headers[headerName] = [
+                            ...(headers[headerName] ?? []),
+                            value,
+                        ];
+                    }
+                });
+                const { content } = entry.response;
+                request.respond(
+                    {
+                        body: Buffer.from(
+                            content.text ?? '',
+                            content.encoding === 'base64' ? 'base64' : 'utf8'
+                        ),
+                        headers,
+                        status: entry.response.status,
+                    },
+                    priority
+                );
+            } else if (
+                har.notFound === 'fallback' ||
+                !isNetworkUrl(requestUrl)
+            ) {
+                request.continue(
+                    request.continueRequestOverrides(),
+                    DEFAULT_INTERCEPT_RESOLUTION_PRIORITY
+                );
+            } else {
+                logWarning(
+                    `The HAR file doesn't have a response for ${requestUrl}`
+                );
+                request.abort('internetdisconnected', priority);
+            }
+        });
+    }
+
+    /**
+     * Loads the entries from a HAR file. The file is only read once.
+     *
+     * @param {string} path The path of the HAR file
+     * @returns {Map<string, HarEntry[]>} The entries keyed by the request key
+     */
+    #loadEntries(path: string): Map<string, HarEntry[]> {
+        const loadedEntries = this.#replays.get(path);
+        if (loadedEntries) {
+            return loadedEntries;
+        }
+        if (!fs.existsSync(path)) {
+            throw new Error(`The HAR file "${path}" could not be found`);
+        }
+        let entries: HarEntry[];
+        try {
+            entries = fs.readJsonSync(path).log.entries;
+        } catch (err) {
+            throw new Error(
+                `The HAR file "${path}" could not be read. ${err.message}`
+            );
+        }
+        if (!Array.isArray(entries)) {
+            throw new Error(`The HAR file "${path}" doesn't have any entries`);
+        }
+        const entriesByKey = new Map<string, HarEntry[]>();
+        entries.forEach((entry) => {
+            const key = getRequestKey(entry.request.method, entry.request.url);
+            entriesByKey.set(key, [...(entriesByKey.get(key) ?? []), entry]);
+        });
+        this.#replays.set(path, entriesByKey);
+        return entriesByKey;
+    }
+}
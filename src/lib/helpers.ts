@@ -9,6 +9,7 @@ import { parse } from 'tldts';
 
 // Library
 import { ConfigParser } from '../config.js';
+import { injectCss } from './inject.js';
 import { isStringWithValue } from './types.js';
 import {
     type Config,
@@ -20,6 +21,9 @@ import {
 /**
  * Hides the elements on the page that match the given CSS selectors.
  *
+ * The elements are hidden with a style tag so that elements that are added later are hidden too.
+ * Each selector has its own rule so that an invalid selector doesn't stop the others from being hidden.
+ *
  * @param {Page} page The page object
  * @param {string[]} selectors The array of CSS selectors to hide
  * @returns {Promise<void>} A promise that resolves when the elements have been hidden
@@ -28,18 +32,13 @@ export const hideElements = async (
     page: Page,
     selectors: string[]
 ): Promise<void> => {
-    const promises = [];
-    selectors.forEach((selector) => {
-        promises.push(
-            page.evaluate((sel) => {
-                document.querySelectorAll(sel).forEach((element) => {
-                    // eslint-disable-next-line no-param-reassign -- Must set display to none to hide the element
-                    (element as HTMLElement).style.display = 'none !important';
-                });
-            }, selector)
-        );
-    });
-    await Promise.all(promises);
+    if (selectors.length > 0) {
+        await injectCss(page, [
+            selectors
+                .map((selector) => `${selector} { display: none !important; }`)
+                .join('\n'),
+        ]);
+    }
 };
 
 /**
@@ -65,12 +64,29 @@ const cleanUrl = (value: string): string => {
     return returnValue;
 };
 
+/**
+ * Converts a name, like a device name, into a value that can be used in a file name.
+ * For example, "iPhone 15 Pro" becomes "iPhone-15-Pro".
+ *
+ * @param {string} value The value to convert
+ * @returns {string}
+ */
+const toFileNamePart = (value: string): string =>
+    value.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '');
+
 /**
  * Formats the file name by replacing placeholders with values
  *
  * Supported placeholders:
+ * {device} - The name of the emulated device, or "desktop" if a device is not emulated
  * {height} - The height of the screenshot. If full screen this height doesn't mean much unless the height of the page is less than this height.
+ * {index} - The index of the element within the elements that match the selector, or 0 for a page screenshot
+ * {locale} - The locale that the page is requested in, or "default" if a locale is not set
  * {quality} - The JPG quality of the screenshot image
+ * {scheme} - The emulated color scheme, "light" or "dark", or "default" if a color scheme is not emulated
+ * {selector} - The CSS selector of the element, or "page" for a page screenshot
+ * {size} - The device name if a device is emulated, otherwise the width and height (e.g. 1300x900)
+ * {step} - The name of the action step that the screenshot was taken at, or "final" for the screenshot after all of the actions
  * {url} - The URL the screenshot is for
  * {width} - The width of the screenshot
  *
@@ -119,6 +135,14 @@ const formatFileName = (url: UrlData | SizeData, name: string): string => {
         full = 'fit';
     }
 
+    // Set up the "device" and "size" portions of the name
+    let device = 'desktop',
+        size = `${url.width}x${url.height}`;
+    if (isStringWithValue(url.device)) {
+        device = toFileNamePart(url.device);
+        size = device;
+    }
+
     const date = new Date();
 
     // Format the name
@@ -142,13 +166,56 @@ const formatFileName = (url: UrlData | SizeData, name: string): string => {
     returnValue = returnValue.replace(/{quality}/g, url.quality.toString());
     returnValue = returnValue.replace(/{full}/g, full);
     returnValue = returnValue.replace(/{fit}/g, fit);
-    returnValue = returnValue.replace(/{size}/g, `${url.width}x${url.height}`);
+    returnValue = returnValue.replace(/{size}/g, size);
+    returnValue = returnValue.replace(/{device}/g, device);
+    returnValue = returnValue.replace(
+        /{step}/g,
+        isStringWithValue(url.step) ? toFileNamePart(url.step) : 'final'
+    );
+    returnValue = returnValue.replace(
+        /{locale}/g,
+        isStringWithValue(url.locale) ? url.locale : 'default'
+    );
+    returnValue = returnValue.replace(
+        /{scheme}/g,
+        url.colorScheme === 'dark' || url.colorScheme === 'light'
+            ? url.colorScheme
+            : 'default'
+    );
+    returnValue = returnValue.replace(
+        /{selector}/g,
+        url.element ? toFileNamePart(url.element.selector) : 'page'
+    );
+    returnValue = returnValue.replace(
+        /{index}/g,
+        url.element ? url.element.index.toString() : '0'
+    );
     returnValue = returnValue.replace(/{month}/g, date.getMonth().toString());
     returnValue = returnValue.replace(/{day}/g, date.getDate().toString());
     returnValue = returnValue.replace(/{year}/g, date.getFullYear().toString());
     return returnValue;
 };
 
+/**
+ * Gets the locale to add to the file name
+ *
+ * The locale is only added if it's different from the locale of the configuration,
+ * for example, when each size is taken in a different locale.
+ *
+ * @param {string} locale The locale of the URL or size
+ * @param {string} configLocale The locale of the configuration
+ * @returns {string|undefined}
+ */
+export const getLocaleSuffix = (
+    locale: string,
+    configLocale: string
+): string | undefined => {
+    if (isStringWithValue(locale) && locale !== configLocale) {
+        return locale;
+    }
+    return undefined;
+};
+
 /**
  * Gets the path to save the screenshot at
  *
@@ -166,12 +233,45 @@ export const getUrlPath = (url: UrlData | SizeData): string => {
         // Fall back to getting the filename from the URL
         filename = formatFileName(url, '{url}');
     }
-    // Add the extension
     const ext = extname(filename).toLowerCase().replace('.', '');
-    if (
-        !isStringWithValue(ext) ||
-        !['jpg', 'jpeg', 'png', 'webp'].includes(ext)
-    ) {
+    const hasExtension =
+        isStringWithValue(ext) &&
+        ['avif', 'jpg', 'jpeg', 'pdf', 'png', 'webp'].includes(ext);
+    // Make sure that the screenshots taken at action steps, of elements, in other locales, or in both color schemes don't
+    // overwrite each other if the file name doesn't include the {step}, {selector}, {index}, {locale} or {scheme} placeholders.
+    const format = isStringWithValue(url.fileName)
+        ? url.fileName
+        : url.nameFormat;
+    const suffixes: string[] = [];
+    if (isStringWithValue(url.localeSuffix) && !format?.includes('{locale}')) {
+        suffixes.push(url.localeSuffix);
+    }
+    if (isStringWithValue(url.scheme) && !format?.includes('{scheme}')) {
+        suffixes.push(url.scheme);
+    }
+    if (isStringWithValue(url.step) && !format?.includes('{step}')) {
+        suffixes.push(toFileNamePart(url.step));
+    }
+    if (url.element) {
+        if (!format?.includes('{selector}')) {
+            suffixes.push(toFileNamePart(url.element.selector));
+        }
+        if (url.element.index > 0 && !format?.includes('{index}')) {
+            suffixes.push(url.element.index.toString());
+        }
+    }
+    let suffix = suffixes.length > 0 ? `-${suffixes.join('-')}` : '';
+    if (url.thumbnail) {
+        // The thumbnail suffix is added as is so that it can use its own separator
+        suffix += url.thumbnail.suffix;
+    }
+    if (suffix.length > 0) {
+        filename = hasExtension
+            ? `${filename.slice(0, -(ext.length + 1))}${suffix}.${filename.slice(-ext.length)}`
+            : `${filename}${suffix}`;
+    }
+    // Add the extension
+    if (!hasExtension) {
         // The file name doesn't already have an extension, or the extension is not valid. Use the file type
         filename += `.${url.fileType}`;
     }
@@ -228,6 +328,7 @@ export const setupUrl = (url: UrlParamObject, config: Config): UrlData => {
 
     // Set the path to the path of the URL.
     // This needs to be done after the URL has been set up to ensure that the URL is valid.
+    urlData.localeSuffix = getLocaleSuffix(urlData.locale, config.locale);
     urlData.path = getUrlPath(urlData);
 
     // Return the URL data object
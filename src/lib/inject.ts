@@ -0,0 +1,40 @@
+/* ===========================================================================
+    Inject functions
+    Adds CSS and JavaScript to the page before the screenshot is taken. This
+    can be used to mask dynamic content, swap fonts, or change the layout.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+
+/**
+ * Adds the CSS to the page as style tags
+ *
+ * The styles stay on the page, so they also apply to any elements that are added later.
+ *
+ * @param {Page} page The page object
+ * @param {string[]} styles The CSS to add
+ * @returns {Promise<void>}
+ */
+export const injectCss = async (
+    page: Page,
+    styles: string[]
+): Promise<void> => {
+    await Promise.all(styles.map((content) => page.addStyleTag({ content })));
+};
+
+/**
+ * Adds the JavaScript to the page as script tags
+ *
+ * @param {Page} page The page object
+ * @param {string[]} scripts The JavaScript to run
+ * @returns {Promise<void>}
+ */
+export const injectScripts = async (
+    page: Page,
+    scripts: string[]
+): Promise<void> => {
+    for (const content of scripts) {
+        // eslint-disable-next-line no-await-in-loop -- The scripts run in order in case one depends on another
+        await page.addScriptTag({ content });
+    }
+};
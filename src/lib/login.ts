@@ -0,0 +1,165 @@
+/* ===========================================================================
+    Login functions
+    Runs a scripted login flow before taking screenshots of protected pages.
+    The login only happens once for each login configuration. The session
+    cookies and local storage are then copied into the browser context of
+    every other screenshot so that they don't have to log in again.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+import { setTimeout } from 'node:timers/promises';
+
+// Library
+import { logInfo, logSuccess } from './log.js';
+import { urlMatchesPattern } from './pattern.js';
+import { type LoginConfig, type LoginSession, type UrlData } from '../types.js';
+
+// The number of milliseconds between checks of the page URL while waiting for the login to succeed
+const urlCheckInterval = 100;
+
+/**
+ * Waits for the page URL to match the pattern
+ *
+ * @param {Page} page The page object
+ * @param {string} pattern The glob or regular expression pattern
+ * @param {number} timeout The maximum number of milliseconds to wait
+ * @returns {Promise<void>}
+ */
+const waitForUrl = async (
+    page: Page,
+    pattern: string,
+    timeout: number
+): Promise<void> => {
+    const endTime = Date.now() + timeout;
+    while (!urlMatchesPattern(page.url(), [pattern])) {
+        if (Date.now() > endTime) {
+            throw new Error(
+                `The login did not go to a URL that matches "${pattern}". The current URL is ${page.url()}`
+            );
+        }
+        // eslint-disable-next-line no-await-in-loop -- The URL has to be checked until it matches
+        await setTimeout(urlCheckInterval);
+    }
+};
+
+/**
+ * Fills in the login form, submits it, and waits for the login to succeed
+ *
+ * @param {Page} page The page object
+ * @param {LoginConfig} login The login configuration
+ * @param {UrlData} url The URL object that is being captured. It holds the timeout and wait until values.
+ * @returns {Promise<LoginSession>} The session state after logging in
+ */
+const runLogin = async (
+    page: Page,
+    login: LoginConfig,
+    url: UrlData
+): Promise<LoginSession> => {
+    const { timeout, waitUntil } = url;
+    logInfo(`Logging in at ${login.url}`);
+    await page.goto(login.url, { timeout, waitUntil });
+
+    for (const field of login.fields) {
+        // eslint-disable-next-line no-await-in-loop -- The fields are filled in order in case one depends on another
+        await page
+            .locator(field.selector)
+            .setTimeout(timeout)
+            .fill(field.value);
+    }
+
+    if (login.successSelector.length === 0 && login.successUrl.length === 0) {
+        // Without a success condition, the login is done when the page navigates after submitting
+        await Promise.all([
+            page.waitForNavigation({ timeout, waitUntil }),
+            page.locator(login.submit).setTimeout(timeout).click(),
+        ]);
+    } else {
+        await page.locator(login.submit).setTimeout(timeout).click();
+        if (login.successUrl.length > 0) {
+            await waitForUrl(page, login.successUrl, timeout);
+        }
+        if (login.successSelector.length > 0) {
+            await page.waitForSelector(login.successSelector, { timeout });
+        }
+    }
+
+    // Save the session so that it can be copied into the other browser contexts
+    const session: LoginSession = {
+        cookies: await page.browserContext().cookies(),
+        localStorage: await page.evaluate(() => Object.entries(localStorage)),
+        origin: new URL(page.url()).origin,
+    };
+    logSuccess(`Logged in at ${login.url}`);
+    return session;
+};
+
+/**
+ * Holds the login sessions so that each login configuration only logs in once
+ */
+class LoginSessions {
+    /**
+     * Holds the login sessions keyed by the login configuration
+     *
+     * @type {Map<string, Promise<LoginSession>>}
+     */
+    #sessions: Map<string, Promise<LoginSession>>;
+
+    /**
+     * Constructor
+     */
+    constructor() {
+        this.#sessions = new Map();
+    }
+
+    /**
+     * Logs in, or reuses the session from an earlier login, before the page is loaded
+     *
+     * The first screenshot for a login configuration runs the login flow. The other screenshots
+     * wait for that login to finish and then copy the session into their browser context.
+     *
+     * @param {Page} page The page object
+     * @param {UrlData} url The URL object that is being captured
+     * @returns {Promise<void>}
+     */
+    async apply(page: Page, url: UrlData): Promise<void> {
+        if (!url.login) {
+            return;
+        }
+        const key = JSON.stringify(url.login);
+        const existingSession = this.#sessions.get(key);
+        if (existingSession) {
+            const session = await existingSession;
+            if (session.cookies.length > 0) {
+                await page.browserContext().setCookie(...session.cookies);
+            }
+            if (session.localStorage.length > 0) {
+                // Local storage can only be set from within the page, so it's set before any of the page scripts run
+                await page.evaluateOnNewDocument(
+                    (origin, entries) => {
+                        if (window.location.origin === origin) {
+                            entries.forEach(([name, value]) => {
+                                localStorage.setItem(name, value);
+                            });
+                        }
+                    },
+                    session.origin,
+                    session.localStorage
+                );
+            }
+        } else {
+            const session = runLogin(page, url.login, url);
+            this.#sessions.set(key, session);
+            try {
+                await session;
+            } catch (err) {
+                // Remove the failed login so that a retry can try to log in again
+                this.#sessions.delete(key);
+                throw new Error(
+                    `Unable to log in at ${url.login.url}. ${err.message}`
+                );
+            }
+        }
+    }
+}
+
+export default LoginSessions;
@@ -0,0 +1,34 @@
+/* ===========================================================================
+    Manifest functions
+    The manifest is a JSON file that describes each screenshot that was taken
+    so that the results can be used by other tools without parsing the logs.
+=========================================================================== */
+
+import fs from 'fs-extra';
+import { join } from 'node:path';
+
+// Library
+import { type ScreenshotResult } from '../types.js';
+
+// The file name of the manifest
+const manifestFileName = 'manifest.json';
+
+/**
+ * Writes the manifest file
+ *
+ * @param {string} dir The directory that the screenshots are saved in
+ * @param {ScreenshotResult[]} results The screenshot results to include in the manifest
+ * @returns {string} The path that the manifest was saved at
+ */
+const writeManifest = (dir: string, results: ScreenshotResult[]): string => {
+    const manifest = {
+        createdAt: new Date().toISOString(),
+        screenshots: results,
+    };
+    const path = join(dir, manifestFileName);
+    fs.ensureDirSync(dir || '.');
+    fs.writeJsonSync(path, manifest, { spaces: 4 });
+    return path;
+};
+
+export default writeManifest;
@@ -0,0 +1,74 @@
+/* ===========================================================================
+    Mask functions
+    Covers dynamic content, like timestamps and ad slots, with solid boxes so
+    that it doesn't change the screenshots. Unlike hiding the elements, the
+    elements keep their space on the page so the layout doesn't shift.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+
+// The data attribute that is set on the mask boxes so that they can be found and removed
+const maskAttribute = 'data-page-shots-mask';
+
+/**
+ * Covers the elements that match the CSS selectors with solid boxes
+ *
+ * The boxes are positioned where the elements are at the current scroll position. Any boxes from an earlier
+ * call are removed first, so this is called again after the page scrolls to keep fixed and sticky elements covered.
+ *
+ * @param {Page} page The page object
+ * @param {string[]} selectors The CSS selectors of the elements to cover
+ * @param {string} color The CSS color of the boxes
+ * @returns {Promise<void>}
+ */
+const maskElements = async (
+    page: Page,
+    selectors: string[],
+    color: string
+): Promise<void> => {
+    if (selectors.length === 0) {
+        return;
+    }
+    await page.evaluate(
+        (attribute, maskSelectors, maskColor) => {
+            document.querySelectorAll(`[${attribute}]`).forEach((box) => {
+                box.remove();
+            });
+            maskSelectors.forEach((selector) => {
+                let elements: NodeListOf<Element>;
+                try {
+                    elements = document.querySelectorAll(selector);
+                } catch {
+                    // Skip invalid selectors so that the other elements are still covered
+                    return;
+                }
+                elements.forEach((element) => {
+                    const rect = element.getBoundingClientRect();
+                    if (rect.width === 0 || rect.height === 0) {
+                        return;
+                    }
+                    const box = document.createElement('div');
+                    box.setAttribute(attribute, '');
+                    Object.assign(box.style, {
+                        background: maskColor,
+                        height: `${rect.height}px`,
+                        left: `${rect.left + window.scrollX}px`,
+                        margin: '0',
+                        pointerEvents: 'none',
+                        position: 'absolute',
+                        top: `${rect.top + window.scrollY}px`,
+                        width: `${rect.width}px`,
+                        zIndex: '2147483647',
+                    });
+                    // The box is added to the root element so that it's positioned relative to the document
+                    document.documentElement.appendChild(box);
+                });
+            });
+        },
+        maskAttribute,
+        selectors,
+        color
+    );
+};
+
+export default maskElements;
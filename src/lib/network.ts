@@ -0,0 +1,39 @@
+/* ===========================================================================
+    Network throttling functions
+    Uses the network conditions that are built into Puppeteer.
+    https://pptr.dev/api/puppeteer.predefinednetworkconditions
+=========================================================================== */
+
+import { type NetworkConditions, PredefinedNetworkConditions } from 'puppeteer';
+
+/**
+ * Gets the Puppeteer network conditions that match the preset name.
+ *
+ * The match is case-insensitive so that "slow 3g" and "Slow 3G" are the same preset.
+ *
+ * @param {string} name The preset name, like "Slow 3G" or "Fast 4G"
+ * @returns {NetworkConditions|false} The network conditions or false if the preset is not known
+ */
+export const getNetworkConditions = (
+    name: string
+): NetworkConditions | false => {
+    const lowerName = name.trim().toLowerCase();
+    const presetName = Object.keys(PredefinedNetworkConditions).find(
+        (preset) => preset.toLowerCase() === lowerName
+    );
+    return presetName
+        ? {
+              ...PredefinedNetworkConditions[
+                  presetName as keyof typeof PredefinedNetworkConditions
+              ],
+          }
+        : false;
+};
+
+/**
+ * Gets the names of the network condition presets
+ *
+ * @returns {string[]}
+ */
+export const getNetworkPresets = (): string[] =>
+    Object.keys(PredefinedNetworkConditions);
@@ -0,0 +1,76 @@
+/* ===========================================================================
+    Image optimization functions
+    Runs after each screenshot is saved. It converts the image to avif if
+    necessary, shrinks the file with the optimization settings, and limits
+    the image size.
+=========================================================================== */
+
+import fs from 'fs-extra';
+import sharp, { type Sharp } from 'sharp';
+
+// Library
+import { defaultOptimize } from '../config.js';
+import { type UrlData } from '../types.js';
+
+/**
+ * Sets the image to be saved in the file type of the URL with the optimization settings
+ *
+ * The default optimization settings are used if the optimization isn't turned on.
+ *
+ * @param {Sharp} image The sharp image
+ * @param {UrlData} url The URL object
+ * @returns {Sharp}
+ */
+export const encodeImage = (image: Sharp, url: UrlData): Sharp => {
+    const settings = url.optimize || defaultOptimize;
+    switch (url.fileType) {
+        case 'avif':
+            return image.avif({ ...settings.avif, quality: url.quality });
+        case 'jpeg':
+            return image.jpeg({ ...settings.jpeg, quality: url.quality });
+        case 'png':
+            return image.png({
+                ...settings.png,
+                // The quality is only used when the colors are reduced to a palette
+                quality: url.quality,
+            });
+        case 'webp':
+            return image.webp({ ...settings.webp, quality: url.quality });
+        default:
+            return image;
+    }
+};
+
+/**
+ * Optimizes the image that was saved at the path
+ *
+ * Puppeteer can't save avif images, so avif screenshots are saved as png images first and converted here
+ * even if the optimization isn't turned on.
+ *
+ * @param {string} path The path that the image was saved at
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+export const optimizeImage = async (
+    path: string,
+    url: UrlData
+): Promise<void> => {
+    if (!url.optimize && url.fileType !== 'avif') {
+        return;
+    }
+    const settings = url.optimize || defaultOptimize;
+    // The image is read into memory first because sharp can't write to the file that it's reading
+    let image = sharp(await fs.readFile(path));
+    if (settings.maxDimension > 0) {
+        image = image.resize({
+            fit: 'inside',
+            height: settings.maxDimension,
+            width: settings.maxDimension,
+            withoutEnlargement: true,
+        });
+    }
+    if (!settings.stripMetadata) {
+        image = image.keepMetadata();
+    }
+    await encodeImage(image, url).toFile(path);
+};
@@ -0,0 +1,71 @@
+/* ===========================================================================
+    URL pattern matching functions
+    Patterns can be globs or regular expressions.
+=========================================================================== */
+
+/**
+ * Escapes the regular expression special characters in a string
+ *
+ * @param {string} value The value to escape
+ * @returns {string} The escaped value
+ */
+const escapeRegExp = (value: string): string =>
+    value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob or regular expression pattern to a regular expression
+ *
+ * A pattern that starts and ends with "/", like "/^https:\/\/shop\./i", is treated as a regular expression.
+ * Otherwise it's treated as a glob pattern where "**" matches any characters,
+ * "*" matches any characters except "/", and "?" matches a single character.
+ *
+ * @param {string} pattern The glob or regular expression pattern
+ * @returns {RegExp} The regular expression
+ */
+export const patternToRegExp = (pattern: string): RegExp => {
+    const regexMatch = pattern.match(/^\/(.+)\/([dgimsuy]*)$/);
+    if (regexMatch !== null) {
+        return new RegExp(regexMatch[1], regexMatch[2]);
+    }
+    let regex = '';
+    for (let index = 0; index < pattern.length; index += 1) {
+        const char = pattern[index];
+        if (char === '*') {
+            if (pattern[index + 1] === '*') {
+                regex += '.*';
+                index += 1;
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (char === '?') {
+            regex += '.';
+        } else {
+            regex += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${regex}$`);
+};
+
+/**
+ * Tests to see if the URL matches any of the patterns.
+ *
+ * Each pattern is tested against the full URL and the URL path (including the query string)
+ * so that patterns like "/blog/**" and "https://www.mysite.com/blog/**" both work.
+ *
+ * @param {string} url The URL to test
+ * @param {string[]} patterns The glob or regular expression patterns
+ * @returns {boolean}
+ */
+export const urlMatchesPattern = (url: string, patterns: string[]): boolean => {
+    let path = url;
+    try {
+        const urlObject = new URL(url);
+        path = `${urlObject.pathname}${urlObject.search}`;
+    } catch {
+        // The URL is not a full URL. Test the value as is.
+    }
+    return patterns.some((pattern) => {
+        const regex = patternToRegExp(pattern);
+        return regex.test(url) || regex.test(path);
+    });
+};
@@ -0,0 +1,203 @@
+/* ===========================================================================
+    Report functions
+    The report is a self-contained index.html file that shows each screenshot
+    grouped by URL with a column for each viewport size.
+    It doesn't load anything from a CDN so that the directory can be zipped and shared.
+=========================================================================== */
+
+import fs from 'fs-extra';
+import { join, relative, sep } from 'node:path';
+
+// Library
+import { type ScreenshotResult } from '../types.js';
+
+// The file name of the report
+const reportFileName = 'index.html';
+
+// The styles for the report
+const styles = `
+* { box-sizing: border-box; }
+body {
+    margin: 0; padding: 24px; color: #1f2933; background: #f5f7fa;
+    font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+}
+h1 { margin: 0 0 4px; font-size: 24px; }
+.summary { margin: 0 0 24px; color: #52606d; }
+table { border-collapse: collapse; width: 100%; background: #fff; }
+th, td { padding: 12px; border: 1px solid #e4e7eb; text-align: left; vertical-align: top; }
+th { background: #f0f4f8; }
+.url { max-width: 280px; word-break: break-all; }
+.shot + .shot { margin-top: 16px; }
+.thumb { display: block; width: 240px; height: 180px; overflow: hidden; border: 1px solid #cbd2d9; background: #fff; }
+.thumb img { width: 100%; height: 100%; object-fit: cover; object-position: top; }
+.thumb.pdf { display: flex; align-items: center; justify-content: center; color: #52606d; font-size: 24px; text-decoration: none; }
+.meta { margin: 6px 0 0; padding: 0; list-style: none; color: #52606d; font-size: 12px; }
+.thumbnails { margin: 6px 0 0; padding: 0; list-style: none; font-size: 12px; }
+.error { color: #c81e1e; }
+`;
+
+/**
+ * Escapes a value so that it can be used in HTML
+ *
+ * @param {string|number} value The value to escape
+ * @returns {string} The escaped value
+ */
+const escapeHtml = (value: string | number): string =>
+    String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+/**
+ * Gets the size label for a screenshot result
+ *
+ * @param {ScreenshotResult} result The screenshot result
+ * @returns {string} The size label
+ */
+const getSizeLabel = (result: ScreenshotResult): string =>
+    result.device ?? `${result.width}x${result.height}`;
+
+/**
+ * Gets the link to a saved file
+ * The link is relative to the report so that the directory can be moved.
+ *
+ * @param {string} dir The directory that the report is saved in
+ * @param {string} path The path that the file was saved at
+ * @returns {string} The escaped link
+ */
+const getHref = (dir: string, path: string): string =>
+    escapeHtml(relative(dir, path).split(sep).join('/'));
+
+/**
+ * Builds the HTML for a single screenshot
+ *
+ * @param {string} dir The directory that the report is saved in
+ * @param {ScreenshotResult} result The screenshot result
+ * @returns {string} The screenshot HTML
+ */
+const buildScreenshot = (dir: string, result: ScreenshotResult): string => {
+    const meta = [];
+    if (result.success && result.fileType !== 'pdf') {
+        meta.push(`${result.imageWidth} x ${result.imageHeight}px`);
+    }
+    if (result.deviceScaleFactor !== 1) {
+        meta.push(`Pixel ratio: ${result.deviceScaleFactor}`);
+    }
+    if (result.colorScheme) {
+        meta.push(`Color scheme: ${result.colorScheme}`);
+    }
+    if (result.locale) {
+        meta.push(`Locale: ${result.locale}`);
+    }
+    if (result.status) {
+        meta.push(`Status: ${result.status}`);
+    }
+    if (result.finalUrl && result.finalUrl !== result.url) {
+        meta.push(`Redirected to: ${result.finalUrl}`);
+    }
+    if (result.stitched) {
+        meta.push('Stitched');
+    }
+    meta.push(`${(result.duration / 1000).toFixed(2)}s`);
+
+    let html = '<div class="shot">';
+    if (result.success) {
+        const href = getHref(dir, result.path);
+        // A PDF can't be shown as an image so it's shown as a link
+        html +=
+            result.fileType === 'pdf'
+                ? `<a class="thumb pdf" href="${href}" target="_blank">PDF</a>`
+                : `<a class="thumb" href="${href}" target="_blank"><img src="${href}" alt="" loading="lazy"></a>`;
+    } else {
+        html += `<p class="error">${escapeHtml(result.error ?? 'The screenshot could not be taken')}</p>`;
+    }
+    html += `<ul class="meta">${meta.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    if (result.thumbnails?.length > 0) {
+        html += `<ul class="thumbnails">${result.thumbnails
+            .map((thumbnail) => {
+                const size = escapeHtml(
+                    `${thumbnail.imageWidth} x ${thumbnail.imageHeight}px`
+                );
+                return `<li><a href="${getHref(dir, thumbnail.path)}" target="_blank">Thumbnail ${size}</a></li>`;
+            })
+            .join('')}</ul>`;
+    }
+    html += '</div>';
+    return html;
+};
+
+/**
+ * Writes the report file
+ *
+ * @param {string} dir The directory that the screenshots are saved in
+ * @param {ScreenshotResult[]} results The screenshot results to include in the report
+ * @param {string[]} urls The URLs in the order that they should be shown
+ * @param {string[]} sizes The configured size labels in the order that they should be shown
+ * @returns {string} The path that the report was saved at
+ */
+const writeReport = (
+    dir: string,
+    results: ScreenshotResult[],
+    urls: string[],
+    sizes: string[]
+): string => {
+    // Add any sizes that were not configured, like sizes that were set on an individual URL
+    const columns = [...sizes];
+    results.forEach((result) => {
+        const label = getSizeLabel(result);
+        if (!columns.includes(label)) {
+            columns.push(label);
+        }
+    });
+
+    const rows = urls
+        .map((url) => {
+            const urlResults = results.filter((result) => result.url === url);
+            if (urlResults.length === 0) {
+                return '';
+            }
+            const cells = columns.map(
+                (column) =>
+                    `<td>${urlResults
+                        .filter((result) => getSizeLabel(result) === column)
+                        .map((result) => buildScreenshot(dir, result))
+                        .join('')}</td>`
+            );
+            return `<tr><th class="url"><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></th>${cells.join('')}</tr>`;
+        })
+        .join('\n');
+
+    const failed = results.filter((result) => !result.success).length;
+    let summary = `${results.length} screenshot${results.length === 1 ? '' : 's'} of ${urls.length} URL${urls.length === 1 ? '' : 's'}`;
+    if (failed > 0) {
+        summary += `, ${failed} failed`;
+    }
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Screenshots</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>Screenshots</h1>
+<p class="summary">${summary}. Created ${escapeHtml(new Date().toLocaleString())}.</p>
+<table>
+<thead><tr><th>URL</th>${columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+    const path = join(dir, reportFileName);
+    fs.ensureDirSync(dir || '.');
+    fs.writeFileSync(path, html);
+    return path;
+};
+
+export default writeReport;
@@ -0,0 +1,170 @@
+/* ===========================================================================
+    Request functions
+    Blocks and rewrites the requests that the page makes. For example, to stop
+    videos and web fonts from loading or to load assets from a local server
+    instead of the production CDN.
+=========================================================================== */
+
+import {
+    DEFAULT_INTERCEPT_RESOLUTION_PRIORITY,
+    InterceptResolutionAction,
+    type HTTPRequest,
+    type Page,
+    type ResourceType,
+} from 'puppeteer';
+import { parse } from 'tldts';
+
+// Library
+import { patternToRegExp, urlMatchesPattern } from './pattern.js';
+import { type BlockRequests, type UrlData } from '../types.js';
+
+// The resource types that can be blocked
+export const resourceTypes: ResourceType[] = [
+    'cspviolationreport',
+    'document',
+    'eventsource',
+    'fedcm',
+    'fetch',
+    'font',
+    'image',
+    'manifest',
+    'media',
+    'other',
+    'ping',
+    'prefetch',
+    'preflight',
+    'script',
+    'signedexchange',
+    'stylesheet',
+    'texttrack',
+    'websocket',
+    'xhr',
+];
+
+// The priority that the requests are blocked and rewritten with.
+// The ad blocker lets requests continue with the default priority, so a higher priority makes these rules win.
+const priority = DEFAULT_INTERCEPT_RESOLUTION_PRIORITY + 1;
+
+// The priority that the ad blocker blocks requests with. It's higher than the priority of the request rules
+// so that a rewritten request can't load an ad that the ad blocker blocked, no matter which handler runs first.
+export const adBlockerPriority = priority + 1;
+
+/**
+ * Gets the site that a URL belongs to so that subdomains, like "cdn.mysite.com" and "www.mysite.com", are the same site
+ *
+ * @param {string} url The URL
+ * @returns {string|null}
+ */
+const getSite = (url: string): string | null => {
+    const result = parse(url);
+    return result.domain ?? result.hostname;
+};
+
+/**
+ * Tests to see if the request should be blocked
+ *
+ * @param {HTTPRequest} request The request
+ * @param {BlockRequests} blockRequests The block requests settings
+ * @param {string|null} site The site of the page that the screenshot is taken of
+ * @returns {boolean}
+ */
+const shouldBlock = (
+    request: HTTPRequest,
+    blockRequests: BlockRequests,
+    site: string | null
+): boolean => {
+    const requestUrl = request.url();
+    if (blockRequests.resourceTypes.includes(request.resourceType())) {
+        return true;
+    }
+    if (blockRequests.thirdParty && site !== null) {
+        const requestSite = getSite(requestUrl);
+        if (requestSite !== null && requestSite !== site) {
+            return true;
+        }
+    }
+    return urlMatchesPattern(requestUrl, blockRequests.patterns);
+};
+
+/**
+ * Gets the URL that the request should be sent to
+ *
+ * The "from" value is either a regular expression, like "/^https:\/\/cdn\.mysite\.com\/(.*)/", where the "to" value
+ * can use the matched groups, like "http://localhost:8080/$1", or the start of the URL that is replaced with the "to" value.
+ *
+ * @param {string} requestUrl The URL of the request
+ * @param {UrlData} url The URL object
+ * @returns {string|null} The new URL or null if the request isn't rewritten
+ */
+const getRewrittenUrl = (requestUrl: string, url: UrlData): string | null => {
+    for (const { from, to } of url.rewriteRequests) {
+        if (/^\/.+\/[dgimsuy]*$/.test(from)) {
+            const regex = patternToRegExp(from);
+            if (regex.test(requestUrl)) {
+                return requestUrl.replace(regex, to);
+            }
+        } else if (requestUrl.startsWith(from)) {
+            return `${to}${requestUrl.substring(from.length)}`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Sets up the rules that block and rewrite the requests for the URL
+ *
+ * It uses Puppeteer's cooperative request interception so that it works alongside the ad blocker.
+ * https://pptr.dev/guides/network-interception#cooperative-intercept-mode
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+export const setupRequests = async (
+    page: Page,
+    url: UrlData
+): Promise<void> => {
+    const { blockRequests } = url;
+    if (!blockRequests && url.rewriteRequests.length === 0) {
+        return;
+    }
+    const site = getSite(url.url);
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+        if (request.isInterceptResolutionHandled()) {
+            return;
+        }
+        const { action } = request.interceptResolutionState();
+        if (
+            action === InterceptResolutionAction.Abort ||
+            action === InterceptResolutionAction.Respond
+        ) {
+            // The ad blocker already blocked the request or responded with a placeholder
+            return;
+        }
+        // The page itself is never blocked
+        const isPage =
+            request.isNavigationRequest() &&
+            request.frame() === page.mainFrame();
+        if (
+            blockRequests &&
+            !isPage &&
+            shouldBlock(request, blockRequests, site)
+        ) {
+            request.abort('blockedbyclient', priority);
+            return;
+        }
+        const rewrittenUrl = getRewrittenUrl(request.url(), url);
+        if (rewrittenUrl !== null) {
+            request.continue(
+                { ...request.continueRequestOverrides(), url: rewrittenUrl },
+                priority
+            );
+            return;
+        }
+        request.continue(
+            request.continueRequestOverrides(),
+            DEFAULT_INTERCEPT_RESOLUTION_PRIORITY
+        );
+    });
+};
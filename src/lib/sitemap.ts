@@ -0,0 +1,137 @@
+/* ===========================================================================
+    Sitemap functions
+    Gets the page URLs from a sitemap.xml file. Sitemap index files and
+    gzipped sitemaps are supported.
+    https://www.sitemaps.org/protocol.html
+=========================================================================== */
+
+import fs from 'fs-extra';
+import { gunzipSync } from 'node:zlib';
+
+// Library
+import { urlMatchesPattern } from './pattern.js';
+import { type SitemapConfig } from '../types.js';
+
+// The maximum depth of nested sitemap index files to follow.
+// This is a safety measure to prevent an infinite loop with sitemap index files that reference each other.
+const maxSitemapDepth = 5;
+
+/**
+ * Tests to see if the sitemap location is a URL instead of a file path
+ *
+ * @param {string} location The sitemap URL or file path
+ * @returns {boolean}
+ */
+const isUrl = (location: string): boolean =>
+    location.match(/^http(s?):\/\//) !== null;
+
+/**
+ * Gets the sitemap contents from a URL or a file.
+ *
+ * If the contents are gzipped then they are decompressed.
+ *
+ * @param {string} location The sitemap URL or file path
+ * @returns {Promise<string>} The sitemap contents
+ */
+const getSitemapContents = async (location: string): Promise<string> => {
+    let contents: Buffer;
+    if (isUrl(location)) {
+        const response = await fetch(location);
+        if (!response.ok) {
+            throw new Error(
+                `Unable to get the sitemap ${location}. Status: ${response.status}`
+            );
+        }
+        contents = Buffer.from(await response.arrayBuffer());
+    } else {
+        contents = await fs.readFile(location);
+    }
+    // Gzipped files start with the 0x1f 0x8b magic bytes
+    if (contents[0] === 0x1f && contents[1] === 0x8b) {
+        contents = gunzipSync(contents);
+    }
+    return contents.toString('utf8');
+};
+
+/**
+ * Decodes the XML entities in a value
+ *
+ * @param {string} value The value to decode
+ * @returns {string} The decoded value
+ */
+const decodeXmlEntities = (value: string): string =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+/**
+ * Gets the <loc> values from the sitemap contents
+ *
+ * @param {string} contents The sitemap contents
+ * @returns {string[]} The location values
+ */
+export const getLocations = (contents: string): string[] => {
+    const locations = [];
+    const regex = /<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gs;
+    for (const match of contents.matchAll(regex)) {
+        const location = decodeXmlEntities(match[1]);
+        if (location.length > 0) {
+            locations.push(location);
+        }
+    }
+    return locations;
+};
+
+/**
+ * Gets the page URLs from a sitemap or sitemap index
+ *
+ * @param {string} location The sitemap URL or file path
+ * @param {number} depth The current sitemap index depth
+ * @param {Set<string>} visited The sitemaps that have already been processed
+ * @returns {Promise<string[]>} The page URLs
+ */
+const getUrls = async (
+    location: string,
+    depth: number,
+    visited: Set<string>
+): Promise<string[]> => {
+    if (depth > maxSitemapDepth || visited.has(location)) {
+        return [];
+    }
+    visited.add(location);
+    const contents = await getSitemapContents(location);
+    const locations = getLocations(contents);
+    if (/<sitemapindex[\s>]/.test(contents)) {
+        // This is a sitemap index file. Each location is another sitemap.
+        const urls = [];
+        for (const sitemap of locations) {
+            // eslint-disable-next-line no-await-in-loop -- Process the sitemaps one at a time to avoid flooding the server with requests
+            urls.push(...(await getUrls(sitemap, depth + 1, visited)));
+        }
+        return urls;
+    }
+    return locations;
+};
+
+/**
+ * Gets the page URLs from a sitemap.
+ *
+ * The include and exclude patterns are applied to the URLs and duplicate URLs are removed.
+ *
+ * @param {SitemapConfig} sitemap The sitemap configuration
+ * @returns {Promise<string[]>} The page URLs
+ */
+export const getSitemapUrls = async (
+    sitemap: SitemapConfig
+): Promise<string[]> => {
+    const urls = await getUrls(sitemap.url, 0, new Set());
+    return [...new Set(urls)].filter(
+        (url) =>
+            (sitemap.include.length === 0 ||
+                urlMatchesPattern(url, sitemap.include)) &&
+            !urlMatchesPattern(url, sitemap.exclude)
+    );
+};
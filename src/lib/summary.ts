@@ -0,0 +1,84 @@
+/* ===========================================================================
+    Summary functions
+    Outputs a table at the end of a run that shows the result of each screenshot.
+=========================================================================== */
+
+// Library
+import { logError, logMessage, logSuccess } from './log.js';
+import { type ScreenshotResult } from '../types.js';
+
+// The column headings for the summary table
+const headings = ['Status', 'URL', 'Size', 'Attempts', 'Time', 'Result'];
+
+/**
+ * Gets the values for a row in the summary table
+ *
+ * @param {ScreenshotResult} result The screenshot result
+ * @returns {string[]} The column values
+ */
+const getRow = (result: ScreenshotResult): string[] => [
+    result.success ? 'OK' : 'FAILED',
+    result.url,
+    result.device ?? `${result.width}x${result.height}`,
+    result.attempts.toString(),
+    `${(result.duration / 1000).toFixed(2)}s`,
+    // Only the first line of the error is shown so that the table stays readable
+    result.success ? result.path : (result.error ?? '').split('\n')[0],
+];
+
+/**
+ * Builds the lines of the summary table
+ *
+ * @param {ScreenshotResult[]} results The screenshot results
+ * @returns {string[]} The table lines
+ */
+export const getSummaryTable = (results: ScreenshotResult[]): string[] => {
+    const rows = [headings, ...results.map(getRow)];
+    const widths = headings.map((heading, column) =>
+        Math.max(...rows.map((row) => row[column].length))
+    );
+    const lines = rows.map((row) =>
+        row
+            // The last column isn't padded so that the lines don't end with spaces
+            .map((value, column) => {
+                if (column < row.length - 1) {
+                    return value.padEnd(widths[column]);
+                }
+                return value;
+            })
+            .join('  ')
+    );
+    lines.splice(
+        1,
+        0,
+        widths
+            .map((width, column) =>
+                '-'.repeat(
+                    column < widths.length - 1 ? width : headings[column].length
+                )
+            )
+            .join('  ')
+    );
+    return lines;
+};
+
+/**
+ * Outputs the summary table and the number of screenshots that failed
+ *
+ * @param {ScreenshotResult[]} results The screenshot results
+ */
+export const logSummary = (results: ScreenshotResult[]) => {
+    if (results.length === 0) {
+        return;
+    }
+    getSummaryTable(results).forEach((line) => {
+        logMessage(line);
+    });
+    const failed = results.filter((result) => !result.success).length;
+    const message = `${results.length - failed} of ${results.length} screenshot${results.length === 1 ? '' : 's'} taken`;
+    if (failed > 0) {
+        logError(`${message}, ${failed} failed`);
+    } else {
+        logSuccess(message);
+    }
+};
@@ -0,0 +1,68 @@
+/* ===========================================================================
+    Thumbnail functions
+    Saves smaller copies of each screenshot next to it, like the images
+    that are used in a portfolio page.
+=========================================================================== */
+
+import fs from 'fs-extra';
+import sharp from 'sharp';
+
+// Library
+import { getUrlPath } from './helpers.js';
+import { logSuccess } from './log.js';
+import { encodeImage } from './optimize.js';
+import { type ThumbnailScreenshot, type UrlData } from '../types.js';
+
+/**
+ * Saves the thumbnails of the screenshot that was saved at the path
+ *
+ * Each thumbnail is resized from the screenshot. If the thumbnail has a crop aspect ratio then the screenshot
+ * is cropped from the top first, like the part of the page that is above the fold.
+ *
+ * @param {string} path The path that the screenshot was saved at
+ * @param {UrlData} url The URL object that the screenshot path was built from
+ * @returns {Promise<ThumbnailScreenshot[]>} The thumbnails that were saved
+ */
+const saveThumbnails = async (
+    path: string,
+    url: UrlData
+): Promise<ThumbnailScreenshot[]> => {
+    const thumbnails: ThumbnailScreenshot[] = [];
+    if (url.thumbnails.length === 0 || url.fileType === 'pdf') {
+        return thumbnails;
+    }
+    const buffer = await fs.readFile(path);
+    const { height, width } = await sharp(buffer).metadata();
+    for (const thumbnail of url.thumbnails) {
+        const thumbnailPath = getUrlPath({ ...url, thumbnail });
+        let image = sharp(buffer);
+        if (thumbnail.crop) {
+            const cropHeight = Math.round(width / thumbnail.crop);
+            // The screenshot is only cropped if it's taller than the aspect ratio
+            if (cropHeight < height) {
+                image = image.extract({
+                    height: cropHeight,
+                    left: 0,
+                    top: 0,
+                    width,
+                });
+            }
+        }
+        image = image.resize({
+            width: thumbnail.width,
+            withoutEnlargement: true,
+        });
+        // eslint-disable-next-line no-await-in-loop -- Save the thumbnails one at a time to limit the memory that is used
+        const info = await encodeImage(image, url).toFile(thumbnailPath);
+        logSuccess(`Saved ${thumbnailPath}`);
+        thumbnails.push({
+            imageHeight: info.height,
+            imageWidth: info.width,
+            path: thumbnailPath,
+            suffix: thumbnail.suffix,
+        });
+    }
+    return thumbnails;
+};
+
+export default saveThumbnails;
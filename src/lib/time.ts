@@ -24,3 +24,14 @@ export function getElapsedTime(startTime: bigint): string {
     const elapsedTime = endTimeNumber - startTimeNumber;
     return (elapsedTime / 1000000000).toFixed(4);
 }
+
+/**
+ * Gets the number of milliseconds since the start time
+ *
+ * @param {bigint} startTime The hrtime to compare against
+ * @returns {number} The number of milliseconds
+ */
+export function getElapsedMilliseconds(startTime: bigint): number {
+    const elapsedTime = process.hrtime.bigint() - startTime;
+    return Math.round(Number(elapsedTime) / 1000000);
+}
@@ -0,0 +1,121 @@
+/* ===========================================================================
+    Wait functions
+    Waits for the page to be ready before the screenshot is taken. They are
+    more reliable than a fixed delay for pages that render content with JavaScript.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+
+// Library
+import { logInfo } from './log.js';
+import { type UrlData, type WaitFor } from '../types.js';
+
+// The number of milliseconds between checks of the page while waiting for a condition
+const pollingInterval = 100;
+
+/**
+ * Runs a wait for condition and adds the name of the condition to the error if it fails
+ *
+ * @param {string} name The name of the wait for option
+ * @param {UrlData} url The URL object
+ * @param {Function} wait The function that waits for the condition
+ * @returns {Promise<void>}
+ */
+const runWaitFor = async (
+    name: string,
+    url: UrlData,
+    wait: () => Promise<unknown>
+): Promise<void> => {
+    logInfo(`Running ${name} on ${url.url}`);
+    try {
+        await wait();
+    } catch (err) {
+        throw new Error(`The ${name} condition was not met. ${err.message}`);
+    }
+};
+
+/**
+ * Gets the number of milliseconds to wait for a condition
+ *
+ * @param {WaitFor} waitFor The wait for condition
+ * @param {UrlData} url The URL object
+ * @returns {number}
+ */
+const getTimeout = (waitFor: WaitFor, url: UrlData): number =>
+    waitFor.timeout ?? url.timeout;
+
+/**
+ * Waits for all of the images on the page to load
+ *
+ * Lazy loaded images are changed to load right away so that images below the viewport are included.
+ *
+ * @param {Page} page The page object
+ * @param {number} timeout The maximum number of milliseconds to wait
+ * @returns {Promise<void>}
+ */
+export const waitForImages = async (
+    page: Page,
+    timeout: number
+): Promise<void> => {
+    await page.evaluate(() => {
+        document.querySelectorAll('img[loading="lazy"]').forEach((image) => {
+            image.setAttribute('loading', 'eager');
+        });
+    });
+    await page.waitForFunction(
+        () => Array.from(document.images).every((image) => image.complete),
+        { polling: pollingInterval, timeout }
+    );
+};
+
+/**
+ * Waits for the readiness conditions that are set for the URL
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+export const waitForPage = async (page: Page, url: UrlData): Promise<void> => {
+    const {
+        waitForFonts,
+        waitForFunction,
+        waitForImages: images,
+        waitForNetworkIdle,
+        waitForSelector,
+    } = url;
+    if (waitForNetworkIdle) {
+        await runWaitFor('waitForNetworkIdle', url, () =>
+            page.waitForNetworkIdle({
+                idleTime: waitForNetworkIdle.idleTime,
+                timeout: getTimeout(waitForNetworkIdle, url),
+            })
+        );
+    }
+    if (waitForSelector) {
+        await runWaitFor('waitForSelector', url, () =>
+            page.waitForSelector(waitForSelector.selector, {
+                timeout: getTimeout(waitForSelector, url),
+            })
+        );
+    }
+    if (waitForFunction) {
+        await runWaitFor('waitForFunction', url, () =>
+            page.waitForFunction(waitForFunction.script, {
+                polling: pollingInterval,
+                timeout: getTimeout(waitForFunction, url),
+            })
+        );
+    }
+    if (waitForFonts) {
+        await runWaitFor('waitForFonts', url, () =>
+            page.waitForFunction(() => document.fonts.ready.then(() => true), {
+                timeout: getTimeout(waitForFonts, url),
+            })
+        );
+    }
+    if (images) {
+        await runWaitFor('waitForImages', url, () =>
+            waitForImages(page, getTimeout(images, url))
+        );
+    }
+};
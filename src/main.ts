@@ -0,0 +1,19 @@
+/* ===========================================================================
+    Programmatic API for using page-shots as a library
+
+    import { capture } from '@aptuitiv/page-shots';
+    const results = await capture({ urls: ['https://www.mysite.com'] });
+=========================================================================== */
+
+export { compareScreenshots as compare } from './compare.js';
+export { capture } from './screenshot.js';
+export type {
+    CompareParam,
+    CompareResult,
+    ConfigParam,
+    ScreenshotResult,
+    SizeParam,
+    SizeParamObject,
+    UrlParam,
+    UrlParamObject,
+} from './types.js';
@@ -0,0 +1,34 @@
+/* ===========================================================================
+    Handles saving the page as a PDF
+    The PDF always includes the whole page, so the full page and stitching
+    logic for screenshots isn't used.
+=========================================================================== */
+
+import { type Page } from 'puppeteer';
+import { type UrlData } from './types.js';
+
+/**
+ * Saves the page as a PDF
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @param {string} path The path to save the PDF at
+ * @returns {Promise<void>}
+ */
+const savePdf = async (
+    page: Page,
+    url: UrlData,
+    path: string
+): Promise<void> => {
+    await page.emulateMediaType(url.pdf.media);
+    await page.pdf({
+        format: url.pdf.format,
+        landscape: url.pdf.landscape,
+        margin: url.pdf.margin,
+        path,
+        printBackground: url.pdf.printBackground,
+        timeout: url.timeout,
+    });
+};
+
+export default savePdf;
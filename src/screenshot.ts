@@ -12,41 +12,247 @@ import fs from 'fs-extra';
 import { globSync } from 'glob';
 import { dirname, extname } from 'node:path';
 import { Cluster } from 'puppeteer-cluster';
-import { GoToOptions, Page, type ScreenshotOptions } from 'puppeteer';
-import puppeteerExtraModule, { type PuppeteerExtra } from 'puppeteer-extra';
+import puppeteer, {
+    GoToOptions,
+    type MediaFeature,
+    Page,
+    type ScreenshotOptions,
+} from 'puppeteer';
+import { addExtra } from 'puppeteer-extra';
 import AdblockerPluginModule from 'puppeteer-extra-plugin-adblocker';
 import type { PluginOptions } from 'puppeteer-extra-plugin-adblocker';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import { setTimeout } from 'node:timers/promises';
+import sharp from 'sharp';
 
 // Library
-import { logError, logInfo, logMessage, logSuccess } from './lib/log.js';
-import { getElapsedTime, getStartTime } from './lib/time.js';
+import {
+    logError,
+    logInfo,
+    logMessage,
+    logSuccess,
+    logWarning,
+} from './lib/log.js';
+import {
+    getElapsedMilliseconds,
+    getElapsedTime,
+    getStartTime,
+} from './lib/time.js';
 
 import { ConfigParser } from './config.js';
 import {
     ConfigParam,
     type Config,
+    type CrawlJob,
+    type FailOnError,
+    type ScreenshotResult,
     type SizeData,
     type UrlData,
+    type UrlParamObject,
 } from './types.js';
+import getElementScreenshots from './element-screenshot.js';
 import getFullPageScreenshot from './full-page-screenshot.js';
-import { hideElements, getUrlPath, setupUrl } from './lib/helpers.js';
+import savePdf from './pdf.js';
+import { getPageLinks, normalizeUrl } from './lib/crawl.js';
+import { runActions } from './lib/actions.js';
+import { disableAnimations, setFixedTime } from './lib/animations.js';
+import { getDevice, getDeviceName } from './lib/device.js';
+import { HarArchives } from './lib/har.js';
+import { injectCss, injectScripts } from './lib/inject.js';
+import LoginSessions from './lib/login.js';
+import maskElements from './lib/mask.js';
+import { optimizeImage } from './lib/optimize.js';
+import { adBlockerPriority, setupRequests } from './lib/requests.js';
+import saveThumbnails from './lib/thumbnails.js';
+import writeManifest from './lib/manifest.js';
+import writeReport from './lib/report.js';
+import { logSummary } from './lib/summary.js';
+import { waitForPage } from './lib/wait.js';
+import {
+    getLocaleSuffix,
+    getUrlPath,
+    hideElements,
+    setupUrl,
+} from './lib/helpers.js';
 import {
+    isDefined,
     isObjectWithValues,
     isStringWithValue,
-    isTrueLike,
 } from './lib/types.js';
 
-// This is a workaround to get the type for the puppeteer-extra module
-// The default export doesn't have "use" in the type definition. This fixes the type error.
-const puppeteerExtra = puppeteerExtraModule as unknown as PuppeteerExtra;
-
 // Type assertion for AdblockerPlugin - TypeScript doesn't recognize the default export as callable
 const AdblockerPlugin = AdblockerPluginModule as unknown as (
     options?: Partial<PluginOptions>
 ) => import('puppeteer-extra-plugin-adblocker').PuppeteerExtraPluginAdblocker;
 
+// The screenshot results for the configurations that save their screenshots in the same directory.
+// They are used to write the manifest and report files.
+type ReportGroup = {
+    manifest: boolean;
+    report: boolean;
+    results: ScreenshotResult[];
+    sizes: string[];
+    urls: string[];
+};
+
+// The number of milliseconds to wait before retrying a screenshot that failed
+const retryDelay = 1000;
+
+/**
+ * Creates the result object for a screenshot before it's taken
+ *
+ * @param {UrlData} url The URL object
+ * @returns {ScreenshotResult}
+ */
+const createResult = (url: UrlData): ScreenshotResult => {
+    const result: ScreenshotResult = {
+        attempts: 1,
+        deviceScaleFactor: url.deviceScaleFactor,
+        duration: 0,
+        fileType: url.fileType,
+        fullScreen: url.fullScreen,
+        height: url.height,
+        path: url.path,
+        stitched: false,
+        success: false,
+        url: url.url,
+        width: url.width,
+    };
+    if (isStringWithValue(url.device)) {
+        result.device = url.device;
+    }
+    if (url.colorScheme === 'dark' || url.colorScheme === 'light') {
+        result.colorScheme = url.colorScheme;
+    }
+    if (isStringWithValue(url.locale)) {
+        result.locale = url.locale;
+    }
+    return result;
+};
+
+/**
+ * Emulates the color scheme, reduced motion, forced colors, and media type for the URL
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+const emulateMedia = async (page: Page, url: UrlData): Promise<void> => {
+    const features: MediaFeature[] = [];
+    // "both" is split into a light and a dark screenshot when the screenshot is queued
+    if (url.colorScheme === 'dark' || url.colorScheme === 'light') {
+        features.push({ name: 'prefers-color-scheme', value: url.colorScheme });
+    }
+    if (url.reducedMotion) {
+        features.push({
+            name: 'prefers-reduced-motion',
+            value: url.reducedMotion,
+        });
+    }
+    if (url.forcedColors) {
+        features.push({ name: 'forced-colors', value: url.forcedColors });
+    }
+    if (features.length > 0) {
+        await page.emulateMediaFeatures(features);
+    }
+    if (url.media) {
+        await page.emulateMediaType(url.media);
+    }
+};
+
+/**
+ * Gets the Accept-Language header value for the locale. For example, "fr-FR,fr;q=0.9" for "fr-FR".
+ *
+ * @param {string} locale The locale
+ * @returns {string}
+ */
+const getAcceptLanguage = (locale: string): string => {
+    const [language] = locale.split('-');
+    return language === locale ? locale : `${locale},${language};q=0.9`;
+};
+
+/**
+ * Emulates the time zone and the geolocation for the URL
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+const emulateLocation = async (page: Page, url: UrlData): Promise<void> => {
+    if (isStringWithValue(url.timezone)) {
+        await page.emulateTimezone(url.timezone);
+    }
+    if (url.geolocation) {
+        // The page must be allowed to get the location or the browser blocks it
+        await page
+            .browserContext()
+            .overridePermissions(new URL(url.url).origin, ['geolocation']);
+        await page.setGeolocation(url.geolocation);
+    }
+};
+
+/**
+ * Slows down the network and the CPU for the URL
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @returns {Promise<void>}
+ */
+const emulateThrottling = async (page: Page, url: UrlData): Promise<void> => {
+    if (url.network) {
+        await page.emulateNetworkConditions(url.network);
+    }
+    if (url.cpuThrottle > 1) {
+        await page.emulateCPUThrottling(url.cpuThrottle);
+    }
+};
+
+/**
+ * Takes the screenshots at the "captureAt" times while the page is loading
+ *
+ * The screenshots are of the viewport because the page isn't done loading. They are saved like the
+ * action step screenshots with the time as the step name, like "1500ms".
+ *
+ * @param {Page} page The page object
+ * @param {UrlData} url The URL object
+ * @param {ScreenshotResult} result The screenshot result
+ * @param {Promise} navigation The promise for the page navigation
+ * @param {ScreenshotOptions} screenshotConfig The screenshot configuration
+ * @returns {Promise<void>}
+ */
+const captureWhileLoading = async (
+    page: Page,
+    url: UrlData,
+    result: ScreenshotResult,
+    navigation: Promise<unknown>,
+    screenshotConfig: ScreenshotOptions
+): Promise<void> => {
+    if (url.fileType === 'pdf') {
+        logWarning('The captureAt screenshots are not taken for PDF files');
+        return;
+    }
+    const startTime = getStartTime();
+    // Handle the navigation error here so that it isn't unhandled while the screenshots are taken.
+    // The error is still thrown when the navigation is awaited after the screenshots.
+    navigation.catch(() => {});
+    for (const time of url.captureAt) {
+        const wait = time - getElapsedMilliseconds(startTime);
+        if (wait > 0) {
+            // eslint-disable-next-line no-await-in-loop -- The screenshots are taken in order
+            await setTimeout(wait);
+        }
+        const step = `${time}ms`;
+        const path = getUrlPath({ ...url, step });
+        // eslint-disable-next-line no-await-in-loop -- The screenshots are taken in order
+        await page.screenshot({ ...screenshotConfig, fullPage: false, path });
+        // eslint-disable-next-line no-await-in-loop -- The screenshots are taken in order
+        await optimizeImage(path, url);
+        // eslint-disable-next-line no-param-reassign -- The screenshots are added to the result
+        result.steps = [...(result.steps ?? []), { name: step, path }];
+        logSuccess(`Saved ${path}`);
+    }
+};
+
 /**
  * Gets the screenshot of the image
  *
@@ -55,57 +261,138 @@ const AdblockerPlugin = AdblockerPluginModule as unknown as (
  *
  * @param {Page} page The page object
  * @param {UrlData} url The URL object
+ * @param {LoginSessions} loginSessions The login sessions to log in with before loading the page
+ * @param {HarArchives} harArchives The HAR files to record the responses to or to replay them from
+ * @returns {Promise<ScreenshotResult>} The result of taking the screenshot
  */
-const getScreenshot = async (page: Page, url: UrlData) => {
+const getScreenshot = async (
+    page: Page,
+    url: UrlData,
+    loginSessions: LoginSessions,
+    harArchives: HarArchives
+): Promise<ScreenshotResult> => {
+    const startTime = getStartTime();
+    const result = createResult(url);
+
     let message = `Viewport size: ${url.width}px / ${url.height}px`;
+    if (isStringWithValue(url.device)) {
+        message += `, Device: ${url.device}`;
+    }
     if (url.clip) {
         message += `, Clip: ${url.clip.x}px / ${url.clip.y}px / ${url.clip.width}px / ${url.clip.height}px`;
     }
     if (url.fullScreen) {
         message += `, Full screen`;
     }
+    if (url.network) {
+        message += `, Network: ${Math.round((url.network.download * 8) / 1000)} Kbps`;
+    }
+    if (url.cpuThrottle > 1) {
+        message += `, CPU: ${url.cpuThrottle}x slower`;
+    }
+    if (url.colorScheme) {
+        message += `, Color scheme: ${url.colorScheme}`;
+    }
+    if (isStringWithValue(url.locale)) {
+        message += `, Locale: ${url.locale}`;
+    }
+    if (url.selector.length > 0) {
+        message += `, Selector: ${url.selector.join(', ')}`;
+    }
     logMessage(`Taking screenshot of ${url.url}`, message);
 
-    // Make sure that the directory for the screenshot exists
-    const dir = dirname(url.path);
-    if (dir.length > 0 && !fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-    }
+    try {
+        // Make sure that the directory for the screenshot exists
+        const dir = dirname(url.path);
+        if (dir.length > 0 && !fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
 
-    // Set the viewport size
-    await page.setViewport({
-        deviceScaleFactor: url.deviceScaleFactor,
-        height: url.height,
-        width: url.width,
-    });
+        if (isStringWithValue(url.device)) {
+            // Emulate the device. The viewport size comes from the configuration so that it can be
+            // overridden, but the device sets the user agent, touch support and mobile mode.
+            const device = getDevice(url.device);
+            await page.emulate({
+                userAgent: device.userAgent,
+                viewport: {
+                    ...device.viewport,
+                    deviceScaleFactor: url.deviceScaleFactor,
+                    height: url.height,
+                    width: url.width,
+                },
+            });
+        } else {
+            // Set the viewport size
+            await page.setViewport({
+                deviceScaleFactor: url.deviceScaleFactor,
+                height: url.height,
+                width: url.width,
+            });
+        }
 
-    // Go to the URL
-    // See https://screenshotone.com/blog/puppeteer-wait-until-the-page-is-ready/ for more information about waiting until the page is ready.
-    const goToOptions: GoToOptions = {
-        timeout: 60000,
-        waitUntil: url.waitUntil,
-    };
-    await page.goto(url.url, goToOptions);
+        await emulateMedia(page, url);
+        await emulateLocation(page, url);
 
-    if (url.delay > 0) {
-        // Timeout based on https://github.com/puppeteer/puppeteer/pull/11780#issuecomment-1975869042
-        logInfo(`Delaying ${url.url} ${url.delay} milliseconds`);
-        await setTimeout(url.delay);
-    }
+        // Set up the authentication before loading the page
+        if (url.httpAuth) {
+            await page.authenticate(url.httpAuth);
+        }
+        const headers = { ...url.headers };
+        if (
+            isStringWithValue(url.locale) &&
+            !Object.keys(headers).some(
+                (name) => name.toLowerCase() === 'accept-language'
+            )
+        ) {
+            // A header that is set in the "headers" value takes precedence over the locale
+            headers['Accept-Language'] = getAcceptLanguage(url.locale);
+        }
+        if (Object.keys(headers).length > 0) {
+            await page.setExtraHTTPHeaders(headers);
+        }
+        if (url.cookies.length > 0) {
+            // Cookies without a domain or URL are set for the URL that the screenshot is taken of
+            await page.setCookie(
+                ...url.cookies.map((cookie) => {
+                    if (
+                        isStringWithValue(cookie.domain) ||
+                        isStringWithValue(cookie.url)
+                    ) {
+                        return cookie;
+                    }
+                    return { ...cookie, url: url.url };
+                })
+            );
+        }
 
-    // Hide the elements on the page that match the given CSS selectors
-    if (Array.isArray(url.hideSelector)) {
-        await hideElements(page, url.hideSelector);
-    }
+        // Content Security Policies can block the styles and scripts that are added to the page
+        await page.setBypassCSP(true);
+
+        if (url.fixedTime !== false) {
+            await setFixedTime(page, url.fixedTime);
+        }
+
+        // Log in, or reuse the session from an earlier login, before loading the page
+        await loginSessions.apply(page, url);
+
+        // Slow down the network and CPU after logging in so that only the page is loaded slowly
+        await emulateThrottling(page, url);
+
+        // Block and rewrite the requests, and record or replay the responses, after logging in so that the login page is loaded as is
+        await setupRequests(page, url);
+        await harArchives.apply(page, url);
 
-    // Save image screenshot
-    try {
         // Set up the screenshot configuration
         const screenshotConfig: ScreenshotOptions = {
             fullPage: url.fullScreen,
             path: url.path,
-            type: url.fileType,
         };
+        if (url.fileType === 'avif') {
+            // Puppeteer can't save avif images. The screenshot is saved as a png and converted after it's taken.
+            screenshotConfig.type = 'png';
+        } else if (url.fileType !== 'pdf') {
+            screenshotConfig.type = url.fileType;
+        }
         if (['jpeg', 'webp'].includes(url.fileType)) {
             screenshotConfig.quality = url.quality;
         }
@@ -114,15 +401,138 @@ const getScreenshot = async (page: Page, url: UrlData) => {
             screenshotConfig.clip = url.clip;
         }
 
-        if (screenshotConfig.fullPage) {
-            await getFullPageScreenshot(page, url, screenshotConfig);
+        // Go to the URL
+        // See https://screenshotone.com/blog/puppeteer-wait-until-the-page-is-ready/ for more information about waiting until the page is ready.
+        const goToOptions: GoToOptions = {
+            timeout: url.timeout,
+            waitUntil: url.waitUntil,
+        };
+        const navigation = page.goto(url.url, goToOptions);
+        if (url.captureAt.length > 0) {
+            await captureWhileLoading(
+                page,
+                url,
+                result,
+                navigation,
+                screenshotConfig
+            );
+        }
+        const response = await navigation;
+        result.finalUrl = page.url();
+        result.status = response?.status();
+
+        // Add the CSS and JavaScript before waiting so that the waits include any changes that they make
+        if (url.injectCss.length > 0) {
+            await injectCss(page, url.injectCss);
+        }
+        if (url.injectScript.length > 0) {
+            await injectScripts(page, url.injectScript);
+        }
+
+        // Wait for the page to be ready
+        await waitForPage(page, url);
+
+        if (url.delay > 0) {
+            // Timeout based on https://github.com/puppeteer/puppeteer/pull/11780#issuecomment-1975869042
+            logInfo(`Delaying ${url.url} ${url.delay} milliseconds`);
+            await setTimeout(url.delay);
+        }
+
+        // Hide the elements on the page that match the given CSS selectors
+        if (Array.isArray(url.hideSelector)) {
+            await hideElements(page, url.hideSelector);
+        }
+
+        // Run the actions to change the page before the screenshot is taken
+        if (url.actions.length > 0) {
+            await runActions(page, url, result, async (step) => {
+                // The screenshots at the action steps only capture the viewport so that the page isn't scrolled.
+                // A native full page screenshot can't be used because it's cut off on pages that are taller than the stitch threshold.
+                const path = getUrlPath({ ...url, step });
+                if (url.disableAnimations) {
+                    await disableAnimations(page);
+                }
+                await maskElements(page, url.maskSelector, url.maskColor);
+                if (url.fileType === 'pdf') {
+                    await savePdf(page, url, path);
+                } else {
+                    await page.screenshot({
+                        ...screenshotConfig,
+                        fullPage: false,
+                        path,
+                    });
+                    await optimizeImage(path, url);
+                }
+                result.steps = [...(result.steps ?? []), { name: step, path }];
+                logSuccess(`Saved ${path}`);
+            });
+        }
+
+        // Stop the animations so that the screenshot is the same each time.
+        // Full page screenshots stop them again after the page is scrolled.
+        if (url.disableAnimations) {
+            await disableAnimations(page);
+        }
+
+        // Cover the masked elements. Full page screenshots cover them again after the page is scrolled.
+        await maskElements(page, url.maskSelector, url.maskColor);
+
+        // Save image screenshot
+        if (url.fileType === 'pdf') {
+            if (url.selector.length > 0) {
+                throw new Error(
+                    'Element screenshots can not be saved as a PDF. Use an image file type with the selector option.'
+                );
+            }
+            // The PDF includes the whole page so the full page screenshot logic isn't used
+            await savePdf(page, url, url.path);
+            logSuccess(`Saved ${url.path}`);
+        } else if (url.selector.length > 0) {
+            result.elements = await getElementScreenshots(
+                page,
+                url,
+                screenshotConfig
+            );
+            // The first element screenshot is used for the result so that it's shown in the report
+            const [element] = result.elements;
+            if (!element) {
+                throw new Error('No visible elements match the selectors');
+            }
+            result.imageHeight = element.imageHeight;
+            result.imageWidth = element.imageWidth;
+            result.path = element.path;
+            result.thumbnails = element.thumbnails;
         } else {
-            await page.screenshot(screenshotConfig);
+            if (screenshotConfig.fullPage) {
+                result.stitched = await getFullPageScreenshot(
+                    page,
+                    url,
+                    screenshotConfig
+                );
+            } else {
+                await page.screenshot(screenshotConfig);
+            }
+            await optimizeImage(url.path, url);
+            const metadata = await sharp(url.path).metadata();
+            result.imageHeight = metadata.height;
+            result.imageWidth = metadata.width;
+            logSuccess(`Saved ${url.path}`);
+            const thumbnails = await saveThumbnails(url.path, url);
+            if (thumbnails.length > 0) {
+                result.thumbnails = thumbnails;
+            }
         }
-        logSuccess(`Saved ${url.path}`);
+        result.success = true;
     } catch (err) {
+        result.error = err.message;
         logError('Error while taking the screenshot', err);
     }
+
+    // Finish recording the responses before the page is closed
+    await harArchives.finish(page);
+
+    result.duration = getElapsedMilliseconds(startTime);
+    return result;
 };
 
 /**
@@ -136,33 +546,132 @@ class Screenshot {
      */
     #cluster: Cluster;
 
+    /**
+     * Holds the number of times that each queued screenshot has been attempted
+     *
+     * @type {Map<UrlData, number>}
+     */
+    #attempts: Map<UrlData, number>;
+
+    /**
+     * Holds when the run is considered to have failed because screenshots failed
+     *
+     * @type {FailOnError}
+     */
+    #failOnError: FailOnError;
+
+    /**
+     * Holds the queued screenshots that have a result.
+     * This is used to ignore an attempt that timed out but finished after it was retried.
+     *
+     * @type {Set<UrlData>}
+     */
+    #finished: Set<UrlData>;
+
+    /**
+     * Holds the HAR files that the responses are recorded to or replayed from
+     *
+     * @type {HarArchives}
+     */
+    #harArchives: HarArchives;
+
+    /**
+     * Holds the login sessions so that each login configuration only logs in once
+     *
+     * @type {LoginSessions}
+     */
+    #loginSessions: LoginSessions;
+
+    /**
+     * Holds the screenshot results for the manifest and report files, keyed by the directory
+     *
+     * @type {Map<string, ReportGroup>}
+     */
+    #reports: Map<string, ReportGroup>;
+
+    /**
+     * Holds the result of each screenshot that was taken
+     *
+     * @type {ScreenshotResult[]}
+     */
+    #results: ScreenshotResult[];
+
+    /**
+     * Holds the number of times to retry a screenshot that failed or timed out
+     *
+     * @type {number}
+     */
+    #retries: number;
+
     /**
      * Constructor
      */
     constructor() {
+        this.#attempts = new Map();
         this.#cluster = null;
+        this.#failOnError = 'any';
+        this.#finished = new Set();
+        this.#harArchives = new HarArchives();
+        this.#loginSessions = new LoginSessions();
+        this.#reports = new Map();
+        this.#results = [];
+        this.#retries = 0;
     }
 
     /**
      * Initialize the screenshot class
      *
      * @param {ConfigParam} options The configuration options to initialize the screenshot class with.
+     * @param {ConfigParam[]} [configFileOptions] The configuration options from the JSON config files. They're used to configure the ad blocker and the cluster.
      * @returns {Promise<void>}
      */
-    async init(options: ConfigParam): Promise<void> {
+    async init(
+        options: ConfigParam,
+        configFileOptions: ConfigParam[] = []
+    ): Promise<void> {
+        // Each run gets its own puppeteer-extra instance so that the plugins from an earlier run,
+        // like the ad blocker, aren't added again or left on.
+        // The puppeteer-extra types are written for an older version of Puppeteer. This fixes the type error.
+        const puppeteerExtra = addExtra(
+            puppeteer as unknown as Parameters<typeof addExtra>[0]
+        );
+
         // Use the StealthPlugin to help prevent detection by anti-bot services
         // https://screenshotone.com/blog/how-to-take-a-screenshot-with-puppeteer/#preventing-puppeteer-detection
         puppeteerExtra.use(StealthPlugin());
+
+        // The ad blocker, cluster and failure settings apply to all of the screenshots. They are parsed from the JSON config files
+        // in order and then from the command line arguments so that the command line values take precedence.
+        const configParser = new ConfigParser();
+        configParser.setDoNotProcessSizes();
+        configParser.setDoNotProcessUrls();
+        [...configFileOptions, options].forEach((configOptions) => {
+            configParser.parse({
+                blockAdsAndCookieNotices:
+                    configOptions.blockAdsAndCookieNotices,
+                concurrency: configOptions.concurrency,
+                failOnError: configOptions.failOnError,
+                retries: configOptions.retries,
+                timeout: configOptions.timeout,
+            });
+        });
+        const config = configParser.getConfig();
+        this.#failOnError = config.failOnError;
+        this.#retries = config.retries;
+
         // Use the AdblockerPlugin to block ads and trackers.
         // This will also block cookie notices.
         // Despite there being options to disable blocking of trackers and annoyances, they don't seem to work. This seems to just block everything.
         // This add blocker library uses https://github.com/ghostery/adblocker/blob/master/packages/adblocker-puppeteer. There may be more options to configure the ad blocker
         // by using that library directly.
         // https://github.com/berstend/puppeteer-extra/blob/master/packages/puppeteer-extra-plugin-adblocker/readme.md
-        // We look for the blockAdsAndCookieNotices option in the options object to determine if we should use the AdblockerPlugin. The options object hasn't been
-        // fully parsed yet, so we need to check the options object directly. Because of that, the blockAdsAndCookieNotices option can only be set on the command line.
-        if (isTrueLike(options.blockAdsAndCookieNotices)) {
-            puppeteerExtra.use(AdblockerPlugin());
+        // The plugin is added to the browser so it can't be turned on or off for each URL. Use the blockRequests option to block specific requests.
+        if (config.blockAdsAndCookieNotices) {
+            puppeteerExtra.use(
+                AdblockerPlugin({
+                    interceptResolutionPriority: adBlockerPriority,
+                })
+            );
         }
 
         // The puppeteer-cluster library is used to launch a cluster of browsers and pages to get the screenshots.
@@ -170,14 +679,79 @@ class Screenshot {
         // https://github.com/thomasdondorf/puppeteer-cluster
         this.#cluster = await Cluster.launch({
             concurrency: Cluster.CONCURRENCY_CONTEXT,
-            maxConcurrency: 10,
+            maxConcurrency: config.concurrency,
             puppeteer: puppeteerExtra,
+            retryDelay,
+            retryLimit: config.retries,
+            timeout: config.timeout,
         });
 
         // Set up the task to call for each URL
         await this.#cluster.task(async ({ page, data: url }) => {
-            await getScreenshot(page, url);
+            if (this.#finished.has(url)) {
+                // An earlier attempt that timed out finished before this retry started
+                return;
+            }
+            const attempt = (this.#attempts.get(url) ?? 0) + 1;
+            this.#attempts.set(url, attempt);
+            const result = await getScreenshot(
+                page,
+                url,
+                this.#loginSessions,
+                this.#harArchives
+            );
+            if (
+                this.#finished.has(url) ||
+                this.#attempts.get(url) !== attempt
+            ) {
+                // This attempt timed out and the screenshot was retried
+                return;
+            }
+            result.attempts = attempt;
+            if (!result.success && attempt <= this.#retries) {
+                // Throw the error so that the cluster retries the screenshot
+                throw new Error(result.error);
+            }
+            this.#addResult(url, result);
+            if (result.success && url.crawlJob?.collectLinks) {
+                // Use the page that is already open to find more pages to crawl
+                await this.#crawlPage(page, url);
+            }
         });
+
+        // Handle the screenshots that failed or timed out
+        this.#cluster.on(
+            'taskerror',
+            (err: Error, url: UrlData, willRetry: boolean) => {
+                if (willRetry) {
+                    logWarning(`Retrying ${url.url}. ${err.message}`);
+                } else if (!this.#finished.has(url)) {
+                    // The last attempt timed out before the screenshot result was added
+                    logError(
+                        `Error while taking the screenshot of ${url.url}`,
+                        err
+                    );
+                    const result = createResult(url);
+                    result.attempts = this.#attempts.get(url) ?? 1;
+                    result.error = err.message;
+                    this.#addResult(url, result);
+                }
+            }
+        );
+    }
+
+    /**
+     * Adds the final result of a screenshot
+     *
+     * @param {UrlData} url The URL object that the screenshot was taken for
+     * @param {ScreenshotResult} result The screenshot result
+     */
+    #addResult(url: UrlData, result: ScreenshotResult) {
+        this.#finished.add(url);
+        this.#results.push(result);
+        if (isDefined(url.reportDir)) {
+            this.#reports.get(url.reportDir).results.push(result);
+        }
     }
 
     /**
@@ -199,9 +773,11 @@ class Screenshot {
         // Parse the configuration options from the command line arguments in case there are any overrides,
         // or if there were not any configuration options from the JSON config file.
         configParser.parse(options);
+        // Add the URLs from any sitemaps
+        await configParser.loadSitemapUrls();
 
         if (configParser.hasUrls()) {
-            this.getScreenshots(configParser.getConfig());
+            await this.getScreenshots(configParser.getConfig());
         } else {
             logError(
                 'No URLs were provided to get screenshots of. Nothing to do.'
@@ -216,77 +792,280 @@ class Screenshot {
      * @returns {Promise<void>}
      */
     async getScreenshots(config: Config): Promise<void> {
-        try {
-            logMessage(
-                `Getting screenshot${config.urls.length === 1 ? '' : 's'} for ${
-                    config.urls.length
-                } URL${config.urls.length === 1 ? '' : 's'}.`
+        logMessage(
+            `Getting screenshot${config.urls.length === 1 ? '' : 's'} for ${
+                config.urls.length
+            } URL${config.urls.length === 1 ? '' : 's'}.`
+        );
+
+        // The manifest and report are saved in the main directory for the configuration
+        if (config.manifest || config.report) {
+            const group: ReportGroup = this.#reports.get(config.dir) ?? {
+                manifest: false,
+                report: false,
+                results: [],
+                sizes: [],
+                urls: [],
+            };
+            group.manifest = group.manifest || config.manifest;
+            group.report = group.report || config.report;
+            if (config.sizes.length === 0) {
+                group.sizes.push(
+                    config.device || `${config.width}x${config.height}`
+                );
+            }
+            config.sizes.forEach((size) => {
+                const deviceName = isStringWithValue(size.device)
+                    ? getDeviceName(size.device)
+                    : false;
+                group.sizes.push(
+                    deviceName ||
+                        `${parseInt(size.width.toString(), 10)}x${parseInt(size.height.toString(), 10)}`
+                );
+            });
+            group.sizes = [...new Set(group.sizes)];
+            this.#reports.set(config.dir, group);
+        }
+
+        // Holds the normalized URLs that have been queued when crawling so that each page is only queued once.
+        const queued = new Set<string>();
+
+        // Queue the URLs to be processed
+        for (const url of config.urls) {
+            this.#queueUrl(url, config, queued, 0);
+        }
+    }
+
+    /**
+     * Set up the URL and queue it to be processed
+     *
+     * @param {UrlParamObject} url The URL object to queue
+     * @param {Config} config The configuration object
+     * @param {Set<string>} queued The normalized URLs that have been queued when crawling
+     * @param {number} depth The link depth of the URL from the starting URL
+     */
+    #queueUrl(
+        url: UrlParamObject,
+        config: Config,
+        queued: Set<string>,
+        depth: number
+    ) {
+        const urlObject = setupUrl(url, config);
+        let reportDir: string;
+        if (this.#reports.has(config.dir)) {
+            reportDir = config.dir;
+            this.#reports.get(reportDir).urls.push(urlObject.url);
+        }
+        let crawlJob: CrawlJob;
+        if (urlObject.crawl) {
+            queued.add(
+                normalizeUrl(urlObject.url, urlObject.crawl.ignoreParams)
             );
+            crawlJob = {
+                collectLinks: true,
+                config,
+                depth,
+                queued,
+                urlParam: url,
+            };
+        }
 
-            // Queue the URLs to be processed
-            for (const url of config.urls) {
-                const urlObject = setupUrl(url, config);
-                if (urlObject.sizes.length > 0) {
-                    // The URL has one or more configured screenshot sizes.
-                    // Queue the sizes to be processed
-                    urlObject.sizes.forEach((size) => {
-                        // Use the ConfigParser to parse the size object and get the size configuration
-                        const configParser = new ConfigParser(urlObject);
-                        configParser.setDoNotProcessUrls();
-                        configParser.setDoNotProcessSizes();
-
-                        // Parse the size object and get the size configuration
-                        configParser.parse(size);
-                        const sizeConfig = configParser.getConfig();
-
-                        // Remove unnecessary configuration values
-                        delete sizeConfig.sizes;
-                        delete sizeConfig.urls;
-                        const sizeData: SizeData = {
-                            ...sizeConfig,
-                            url: urlObject.url,
-                            path: '',
-                        };
-                        // Set the path to the path of the URL
-                        sizeData.path = getUrlPath(sizeData);
-
-                        this.#cluster.queue(sizeData);
-                    });
-                } else {
-                    // The URL has no configured screenshot sizes.
-                    // Queue the URL to be processed
-                    this.#cluster.queue(urlObject);
+        if (urlObject.sizes.length > 0) {
+            // The URL has one or more configured screenshot sizes.
+            // Queue the sizes to be processed
+            urlObject.sizes.forEach((size, index) => {
+                // Use the ConfigParser to parse the size object and get the size configuration
+                const configParser = new ConfigParser(urlObject);
+                configParser.setDoNotProcessUrls();
+                configParser.setDoNotProcessSizes();
+
+                // Parse the size object and get the size configuration
+                configParser.parseSize(size);
+                const sizeConfig = configParser.getConfig();
+
+                // Remove unnecessary configuration values
+                delete sizeConfig.sizes;
+                delete sizeConfig.urls;
+                const sizeData: SizeData = {
+                    ...sizeConfig,
+                    url: urlObject.url,
+                    path: '',
+                };
+                // Set the path to the path of the URL
+                sizeData.localeSuffix = getLocaleSuffix(
+                    sizeData.locale,
+                    config.locale
+                );
+                sizeData.path = getUrlPath(sizeData);
+                sizeData.reportDir = reportDir;
+                if (crawlJob) {
+                    // Only collect the links on the page for the first size
+                    sizeData.crawlJob = {
+                        ...crawlJob,
+                        collectLinks: index === 0,
+                    };
                 }
+
+                this.#queueScreenshot(sizeData);
+            });
+        } else {
+            // The URL has no configured screenshot sizes.
+            // Queue the URL to be processed
+            urlObject.crawlJob = crawlJob;
+            urlObject.reportDir = reportDir;
+            this.#queueScreenshot(urlObject);
+        }
+    }
+
+    /**
+     * Queues a screenshot to be taken
+     *
+     * If the color scheme is "both" then a screenshot is queued for each of the light and dark color schemes.
+     *
+     * @param {UrlData|SizeData} data The URL or size object to take the screenshot of
+     */
+    #queueScreenshot(data: UrlData | SizeData) {
+        if (data.colorScheme !== 'both') {
+            this.#cluster.queue(data);
+            return;
+        }
+        (['light', 'dark'] as const).forEach((scheme, index) => {
+            const schemeData = { ...data, colorScheme: scheme, scheme };
+            // Set the path again so that the screenshots don't overwrite each other
+            schemeData.path = getUrlPath(schemeData);
+            if (data.crawlJob && index > 0) {
+                // Only collect the links on the page for the first color scheme
+                schemeData.crawlJob = { ...data.crawlJob, collectLinks: false };
             }
-        } catch (err) {
-            logError(`Error getting screenshots`, err);
-            process.exit(1);
+            this.#cluster.queue(schemeData);
+        });
+    }
+
+    /**
+     * Collect the same origin links on the page and queue the ones that have not been queued yet
+     *
+     * @param {Page} page The page object
+     * @param {UrlData|SizeData} url The URL object for the page
+     * @returns {Promise<void>}
+     */
+    async #crawlPage(page: Page, url: UrlData | SizeData): Promise<void> {
+        const { crawl, crawlJob } = url;
+        if (crawl && crawlJob.depth < crawl.depth) {
+            // Use the URL that the page ended up at so that the links are still found if the URL redirected to another origin
+            const links = await getPageLinks(page, page.url());
+            // An explicit file name from the configuration can't be shared by multiple URLs either.
+            // The discovered URLs use the name format instead.
+            const config = isStringWithValue(crawlJob.config.fileName)
+                ? { ...crawlJob.config, fileName: '' }
+                : crawlJob.config;
+            let count = 0;
+            for (const link of links) {
+                if (crawlJob.queued.size >= crawl.limit) {
+                    break;
+                }
+                const normalizedUrl = normalizeUrl(link, crawl.ignoreParams);
+                if (!crawlJob.queued.has(normalizedUrl)) {
+                    // Discovered URLs inherit the values from the URL object that they were found from.
+                    // An explicit file name can't be shared by multiple URLs so it's removed.
+                    const urlParam = {
+                        ...crawlJob.urlParam,
+                        url: normalizedUrl,
+                    };
+                    if (
+                        isStringWithValue(urlParam.name) &&
+                        !urlParam.name.includes('{')
+                    ) {
+                        delete urlParam.name;
+                    }
+                    this.#queueUrl(
+                        urlParam,
+                        config,
+                        crawlJob.queued,
+                        crawlJob.depth + 1
+                    );
+                    count += 1;
+                }
+            }
+            if (count > 0) {
+                logInfo(
+                    `Queued ${count} page${count === 1 ? '' : 's'} found on ${url.url}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Get the result of each screenshot that was taken
+     *
+     * @returns {ScreenshotResult[]}
+     */
+    getResults(): ScreenshotResult[] {
+        return this.#results;
+    }
+
+    /**
+     * Get whether or not the run failed based on the failOnError setting
+     *
+     * @returns {boolean}
+     */
+    hasFailed(): boolean {
+        const failed = this.#results.filter((result) => !result.success);
+        switch (this.#failOnError) {
+            case 'all':
+                return (
+                    this.#results.length > 0 &&
+                    failed.length === this.#results.length
+                );
+            case 'never':
+                return false;
+            default:
+                return failed.length > 0;
         }
     }
 
-    async end() {
+    /**
+     * Wait for all of the queued screenshots to be taken and close the browsers.
+     * Then write the recorded HAR files and the manifest and report files.
+     *
+     * @returns {Promise<void>}
+     */
+    async end(): Promise<void> {
         await this.#cluster.idle();
         await this.#cluster.close();
+        this.#harArchives.save().forEach((path) => {
+            logSuccess(`Saved ${path}`);
+        });
+        this.#reports.forEach((group, dir) => {
+            if (group.results.length > 0) {
+                if (group.manifest) {
+                    logSuccess(`Saved ${writeManifest(dir, group.results)}`);
+                }
+                if (group.report) {
+                    const urls = [...new Set(group.urls)];
+                    logSuccess(
+                        `Saved ${writeReport(dir, group.results, urls, group.sizes)}`
+                    );
+                }
+            }
+        });
     }
 }
 
 /**
- * Entry point for processing the screenshots
+ * Gets the list of JSON configuration files from the file names and glob patterns
  *
- * @param {ConfigParam} options The configuration options to process. These come from the command line arguments.
+ * @param {string|string[]} config One or more JSON configuration file names or glob patterns
+ * @returns {string[]} The configuration file paths
  */
-const screenshotHandler = async (options: ConfigParam): Promise<void> => {
-    const startTime = getStartTime();
-    const screenshot = new Screenshot();
-    await screenshot.init(options);
-
-    let configFiles = [];
-    if (Array.isArray(options.config)) {
+const getConfigFiles = (config: string | string[]): string[] => {
+    let configFiles: string[] = [];
+    const configOptions = isStringWithValue(config) ? [config] : config;
+    if (Array.isArray(configOptions)) {
         // One or more configuration file references were provided.
         // Get the list of configuration files from the glob file references.
-        configFiles = options.config
-            .map((config) => {
-                let configOption = config;
+        configFiles = configOptions
+            .map((configFile) => {
+                let configOption = configFile;
                 if (
                     isStringWithValue(configOption) &&
                     !configOption.includes('*')
@@ -295,56 +1074,114 @@ const screenshotHandler = async (options: ConfigParam): Promise<void> => {
                     if (!configOption.endsWith('.json')) {
                         configOption += '.json';
                     }
+                    // The file isn't globbed so that a missing file is reported instead of ignored
+                    return [configOption];
                 }
 
                 return globSync(configOption);
             })
             .flat();
     }
+    return configFiles;
+};
 
-    const promises = [];
-    if (configFiles.length > 0) {
-        // One or more JSON config files were provided. Process each one.
-        configFiles.forEach(async (file) => {
-            try {
-                let configFile = 'shots.json';
-                if (typeof file === 'string' && file.length > 0) {
-                    configFile = file;
-                    const ext = extname(file).toLowerCase().replace('.', '');
-                    if (ext.length === 0) {
-                        configFile += '.json';
-                    }
-                }
-                if (fs.existsSync(configFile)) {
-                    logMessage(`Processing config file: ${configFile}`);
-                    promises.push(
-                        screenshot.processOptions(
-                            options,
-                            fs.readJsonSync(configFile)
-                        )
-                    );
-                } else {
-                    logError(
-                        `The JSON config file "${configFile}" could not be found`
-                    );
-                }
-            } catch (err) {
-                logError(
-                    `Error while processing the JSON config file ${file}`,
-                    err
-                );
-                process.exit();
+/**
+ * Takes the screenshots and outputs the summary
+ *
+ * @param {ConfigParam} options The configuration options to process
+ * @returns {Promise<Screenshot>} The screenshot object that holds the results
+ */
+const takeScreenshots = async (options: ConfigParam): Promise<Screenshot> => {
+    const startTime = getStartTime();
+
+    // The JSON config files are read before the screenshot class is initialized
+    // because they can include the cluster settings.
+    const configFiles = getConfigFiles(options.config);
+    const configFileOptions: ConfigParam[] = [];
+    configFiles.forEach((file) => {
+        let configFile = 'shots.json';
+        if (typeof file === 'string' && file.length > 0) {
+            configFile = file;
+            const ext = extname(file).toLowerCase().replace('.', '');
+            if (ext.length === 0) {
+                configFile += '.json';
             }
-        });
-    } else {
-        promises.push(screenshot.processOptions(options));
+        }
+        if (!fs.existsSync(configFile)) {
+            throw new Error(
+                `The JSON config file "${configFile}" could not be found`
+            );
+        }
+        logMessage(`Processing config file: ${configFile}`);
+        try {
+            configFileOptions.push(fs.readJsonSync(configFile));
+        } catch (err) {
+            throw new Error(
+                `The JSON config file "${configFile}" could not be read. ${err.message}`
+            );
+        }
+    });
+
+    const screenshot = new Screenshot();
+    await screenshot.init(options, configFileOptions);
+
+    try {
+        if (configFiles.length > 0) {
+            // One or more JSON config files were provided. Process each one.
+            await Promise.all(
+                configFileOptions.map((fileOptions) =>
+                    screenshot.processOptions(options, fileOptions)
+                )
+            );
+        } else {
+            await screenshot.processOptions(options);
+        }
+    } finally {
+        await screenshot.end();
     }
 
-    await Promise.all(promises);
-    await screenshot.end();
+    // Output the result of each screenshot
+    logSummary(screenshot.getResults());
+
     // Output the total time it took to get the screenshots
     const time = getElapsedTime(startTime);
     logMessage(`Total time to get screenshots: ${time}s`);
+    return screenshot;
+};
+
+/**
+ * Takes the screenshots and returns the result of each one
+ *
+ * This is the programmatic entry point. It does not exit the process. If something fails
+ * that prevents the screenshots from being taken then an error is thrown.
+ * Screenshots that could not be taken have "success" set to false in their result.
+ *
+ * @param {ConfigParam} options The configuration options to process
+ * @returns {Promise<ScreenshotResult[]>} The result of each screenshot
+ */
+export const capture = async (
+    options: ConfigParam
+): Promise<ScreenshotResult[]> => {
+    const screenshot = await takeScreenshots(options);
+    return screenshot.getResults();
+};
+
+/**
+ * Entry point for processing the screenshots from the command line
+ *
+ * @param {ConfigParam} options The configuration options to process. These come from the command line arguments.
+ */
+const screenshotHandler = async (options: ConfigParam): Promise<void> => {
+    try {
+        const screenshot = await takeScreenshots(options);
+        if (screenshot.hasFailed()) {
+            // Exit with an error code so that CI pipelines notice the failed screenshots
+            process.exit(1);
+        }
+    } catch (err) {
+        logError('Error getting screenshots', err);
+        process.exit(1);
+    }
 };
 
 export default screenshotHandler;
@@ -2,8 +2,16 @@
     Holds the types that are shared across the project
 =========================================================================== */
 
+import {
+    type CookieData,
+    type CookieParam,
+    type ImageFormat,
+    type LowerCasePaperFormat,
+    type NetworkConditions,
+    type PuppeteerLifeCycleEvent,
+    type ResourceType,
+} from 'puppeteer';
 import { BoolLike } from './lib/types.js';
-import { type ImageFormat, type PuppeteerLifeCycleEvent } from 'puppeteer';
 
 // The clip parameter type
 type ClipParam = {
@@ -13,17 +21,191 @@ type ClipParam = {
     y: string | number;
 };
 
+// The types of actions that can be run before the screenshot is taken
+export type ActionType =
+    | 'click'
+    | 'evaluate'
+    | 'hover'
+    | 'press'
+    | 'screenshot'
+    | 'scrollTo'
+    | 'type'
+    | 'waitForFunction'
+    | 'waitForSelector';
+
+// The action parameter type. Each action is run in order before the screenshot is taken.
+type ActionParam = {
+    // The type of action
+    action: ActionType;
+    // The key to press for the "press" action. For example, "Enter" or "Escape".
+    key?: string;
+    // The name of the step for the "screenshot" action. It's used for the {step} file name placeholder.
+    name?: string;
+    // The JavaScript to run for the "evaluate" and "waitForFunction" actions
+    script?: string;
+    // The CSS selector of the element to act on
+    selector?: string;
+    // The text to type for the "type" action
+    text?: string;
+    // The vertical pixel position to scroll to for the "scrollTo" action if a selector isn't set
+    y?: number | string;
+};
+
+// The HTTP authentication parameter type if the httpAuth parameter is an object
+type HttpAuthParam = {
+    password?: string;
+    username?: string;
+};
+
+// The geolocation parameter type if the geolocation parameter is an object
+type GeolocationParam = {
+    // The accuracy of the location in meters
+    accuracy?: number | string;
+    latitude: number | string;
+    longitude: number | string;
+};
+
+// The network parameter type if the network parameter is an object
+type NetworkParam = {
+    // The download speed in kilobits per second
+    download: number | string;
+    // The number of milliseconds of latency that is added to each request
+    latency?: number | string;
+    // The upload speed in kilobits per second. Defaults to the download speed.
+    upload?: number | string;
+};
+
+// The HAR file parameter type
+type HarParam = {
+    // "record" to save the responses to the HAR file, or "replay" to respond to the requests from the HAR file
+    mode?: string;
+    // What to do with the requests that aren't in the HAR file when replaying. "abort", or "fallback" to use the network.
+    notFound?: string;
+    // The path to the HAR file
+    path: string;
+};
+
+// The login parameter type
+type LoginParam = {
+    // The CSS selectors of the form fields and the values to fill them in with
+    fields?: Record<string, string>;
+    // The CSS selector of the button to click to submit the login form
+    submit: string;
+    // The CSS selector of an element that is on the page after logging in
+    successSelector?: string;
+    // A glob or regular expression pattern that the page URL matches after logging in
+    successUrl?: string;
+    // The URL of the login page
+    url: string;
+};
+
+// The wait for parameter type if a wait for parameter is an object
+type WaitForParam = {
+    // The maximum number of milliseconds to wait. Defaults to the "timeout" value.
+    timeout?: number | string;
+};
+
+// The PDF parameter type if the pdf parameter is an object
+type PdfParam = {
+    // The paper format. For example, "letter" or "a4".
+    format?: string;
+    // Whether or not to use the landscape orientation
+    landscape?: BoolLike;
+    // The page margins. It can be a CSS length for all sides, like "1cm", or an object with top, right, bottom, and left values.
+    margin?: string | number | PdfMarginParam;
+    // The CSS media type to use. "screen" or "print".
+    media?: string;
+    // Whether or not to print the background colors and images
+    printBackground?: BoolLike;
+};
+
+// The PDF margin parameter type if the margin is an object
+type PdfMarginParam = {
+    bottom?: string | number;
+    left?: string | number;
+    right?: string | number;
+    top?: string | number;
+};
+
+// The optimize parameter type if the optimize parameter is an object
+type OptimizeParam = {
+    // The avif settings. The effort is 0-9 and a higher effort makes a smaller file but is slower.
+    avif?: { effort?: number | string; lossless?: BoolLike };
+    // The jpg settings. Set mozjpeg to true to use the mozjpeg defaults, which make smaller files.
+    jpeg?: { mozjpeg?: BoolLike };
+    // The maximum pixel width or height of the image. Larger images are scaled down to fit.
+    maxDimension?: number | string;
+    // The png settings. The compression level is 0-9. Set palette to true to reduce the number of colors, which is lossy.
+    png?: { compressionLevel?: number | string; palette?: BoolLike };
+    // Whether or not to remove the image metadata
+    stripMetadata?: BoolLike;
+    // The webp settings. The effort is 0-6 and a higher effort makes a smaller file but is slower.
+    webp?: { effort?: number | string; lossless?: BoolLike };
+};
+
+// The thumbnail parameter type if a thumbnail is an object
+export type ThumbnailParam = {
+    // The aspect ratio to crop the screenshot to from the top before it's resized. For example, "16:9" or 1.5.
+    // Set to false to not crop the screenshot.
+    crop?: string | number | false;
+    // The text to add to the end of the file name. Defaults to "-" and the width. For example, "-400".
+    suffix?: string;
+    // The pixel width of the thumbnail
+    width: number | string;
+};
+
+// The crawl parameter type if the crawl parameter is an object
+type CrawlParam = {
+    // The maximum link depth to crawl from the starting URLs
+    depth?: number | string;
+    // The glob or regular expression patterns for the query string parameters to ignore when comparing URLs
+    ignoreParams?: string | string[];
+    // The maximum number of pages to get screenshots of
+    limit?: number | string;
+};
+
+// The sitemap object type if the sitemap parameter is an object
+export type SitemapParamObject = {
+    // One or more glob or regular expression patterns. URLs that match one of them are not used.
+    exclude?: string | string[];
+    // One or more glob or regular expression patterns. If set, only the URLs that match one of them are used.
+    include?: string | string[];
+    // The URL or file path of the sitemap
+    url: string;
+};
+
+// The sitemap value type
+export type SitemapParam = string | SitemapParamObject;
+
 // The base configuration parameters without the "sizes" or "urls" properties because
 // those can include these configuration parameters.
 type BaseConfigParam = {
+    // The actions to run in order before the screenshot is taken. For example, to open a menu or dismiss a modal.
+    actions?: ActionParam[];
+    // Whether or not to save the screenshot as an avif
+    avif?: BoolLike;
     // The base URL to prepend to each URL if necessary
     base?: string; // CLI argument
     baseUrl?: string; // JSON config
     // Whether or not to block ads and cookie notices.
-    // Because this has to be checked before the options are parsed, it can only be set on the command line.
+    // The ad blocker is set up for the browser so it's only used from the command line and the top level of the JSON config files.
     blockAdsAndCookieNotices?: BoolLike;
+    // The requests to block. Each value is a glob or regular expression URL pattern, a resource type like "font" or "media",
+    // or "third-party" to block the requests to other sites. Set to false to not block any requests.
+    blockRequests?: string | string[] | false;
+    // The number of milliseconds after the page starts loading to take a screenshot at, or an array of them.
+    // The screenshots show the page part way through loading. Set to false to not take them.
+    captureAt?: number | string | (number | string)[] | false;
     // Holds an object which specifies clipping region of the page.
     clip?: ClipParam; // JSON config
+    // Whether or not to crawl the same origin links on each page. It can also be an object with the crawl settings.
+    crawl?: BoolLike | CrawlParam;
+    // The maximum link depth to crawl from the starting URLs
+    crawlDepth?: number | string;
+    // The glob or regular expression patterns for the query string parameters to ignore when comparing crawled URLs
+    crawlIgnoreParams?: string | string[];
+    // The maximum number of pages to get screenshots of when crawling
+    crawlLimit?: number | string;
     // The x coordinate of the clipping region
     clipX?: string | number;
     // The y coordinate of the clipping region
@@ -32,51 +214,170 @@ type BaseConfigParam = {
     clipWidth?: string | number;
     // The height of the clipping region
     clipHeight?: string | number;
-    // The name of the JSON config file to use to get the screenshots. If this is set all other arguments are ignored.
-    config?: string;
+    // The name of the JSON config file(s) to use to get the screenshots. If this is set all other arguments are ignored.
+    config?: string | string[];
+    // The color scheme to emulate. "light", "dark", or "both" to take a screenshot in each of them.
+    // Set to false to use the default color scheme of the browser.
+    colorScheme?: string | false;
+    // The cookies to set before loading the page. It can be an array of cookie objects or the path to a JSON file that holds the cookies.
+    // Set to false to not set any cookies.
+    cookies?: string | CookieParam[] | false;
+    // How many times slower the CPU should be. For example, 4 is four times slower. Set to false to not slow it down.
+    cpuThrottle?: number | string | false;
     // The number of milliseconds to delay after loading before taking a picture of the page. Can not be greater than 30000.
     delay?: number | string;
+    // The name of the device to emulate. For example, "iPhone 15" or "Pixel 5". Set to false to not emulate a device.
+    // See https://pptr.dev/api/puppeteer.knowndevices for the list of devices.
+    device?: string | false;
     // The directory that screenshots are saved in
     dir?: string;
+    // Whether or not to stop CSS animations, transitions, videos, and animation loops so that each screenshot is the same
+    disableAnimations?: BoolLike;
     // Whether or not to fit the screenshot to the provided height and width.
     fit?: BoolLike;
+    // The date and time that Date.now() returns in the page. It can be a date string or the number of milliseconds since the epoch.
+    // Set to false to use the real time.
+    fixedTime?: string | number | false;
+    // Whether or not to emulate forced colors, like the Windows high contrast mode. "active", "none", or true for "active".
+    // Set to false to not emulate forced colors.
+    forcedColors?: BoolLike | string;
+    // The geolocation to emulate. It can be an object with "latitude", "longitude", and "accuracy" values,
+    // or a "latitude,longitude" string. Set to false to not emulate the geolocation.
+    geolocation?: string | GeolocationParam | false;
     // Whether or not to get a full page screenshot. Alternate to "fullscreen" and"fit".
     full?: BoolLike;
     // Whether or not to get a full page screenshot. Alternate to "full" and "fit".
     fullscreen?: BoolLike;
     fullScreen?: BoolLike;
+    // The HAR file to record the responses to or to replay them from. It can be the path to the file, or an object with the path,
+    // mode, and notFound values. Set to false to not use a HAR file.
+    har?: string | HarParam | false;
+    // "record" to save the responses to the HAR file, or "replay" to respond to the requests from the HAR file
+    harMode?: string;
+    // What to do with the requests that aren't in the HAR file when replaying. "abort", or "fallback" to use the network.
+    harNotFound?: string;
+    // Extra HTTP headers to send with every request. It can be an object of header names and values,
+    // or one or more "Name: value" strings. Set to false to not send any extra headers.
+    headers?: Record<string, string> | string | string[] | false;
     // The height of the viewport to take the screenshot in
     height?: number | string;
     // The CSS selector of the element to hide during the screenshot process. The elements are hidden before any screenshot or scrolling is done.
     hideSelector?: string | string[];
-    // The CSS selector of the element to hide during the screenshot process if screenshots are stitched together. The elements are hidden after the first scroll. Common usage is to hide a sticky header or floating element.
+    // The CSS selector of the element to hide during the screenshot process if screenshots are stitched together. The elements are hidden after the first scroll.
+    // Common usage is to hide a sticky header or floating element.
     hideStitchSelector?: string | string[];
+    // The HTTP authentication username and password. It can be an object or a "username:password" string.
+    // Set to false to not use HTTP authentication.
+    httpAuth?: HttpAuthParam | string | false;
+    // CSS to add to the page after it loads. It can be the CSS, the path to a .css file, or an array of them.
+    // Set to false to not add any CSS.
+    injectCss?: string | string[] | false;
+    // JavaScript to run in the page after it loads. It can be the JavaScript, the path to a .js file, or an array of them.
+    // Set to false to not run any JavaScript.
+    injectScript?: string | string[] | false;
     // Whether or not to save the screenshot as a jpg
     jpg?: BoolLike;
+    // The locale to request the page in, like "fr-FR". It sets the Accept-Language header.
+    // Set to false to use the default language of the browser.
+    locale?: string | false;
+    // Whether or not to write a manifest.json file in the directory that describes each screenshot
+    manifest?: BoolLike;
+    // The CSS color of the boxes that cover the elements that match the "maskSelector" option
+    maskColor?: string;
+    // The CSS selector, or an array of selectors, of the elements to cover with a solid box before the screenshot is taken.
+    // The elements keep their space on the page. Set to false to not cover any elements.
+    maskSelector?: string | string[] | false;
+    // The CSS media type to emulate. "screen" or "print". Set to false to use the default media type.
+    media?: string | false;
     // The name of the file to save the screenshot as. Only applies to the first URL.
     name?: string;
+    // The network speed to emulate. It can be a preset, like "Slow 3G" or "Fast 4G", or an object with
+    // "download", "upload", and "latency" values. Set to false to not slow down the network.
+    network?: string | NetworkParam | false;
+    // Whether or not to optimize the images after they are saved. It can also be an object with the optimization settings.
+    optimize?: BoolLike | OptimizeParam;
+    // The maximum pixel width or height of the optimized images
+    optimizeMaxDimension?: number | string;
     // The device pixel ratio to use for the screenshot. Default is 1.
     pixelRatio?: number | string;
+    // Whether or not to save the page as a pdf. It can also be an object with the PDF settings.
+    pdf?: BoolLike | PdfParam;
+    // The paper format of the PDF. For example, "letter" or "a4".
+    pdfFormat?: string;
+    // Whether or not to use the landscape orientation for the PDF
+    pdfLandscape?: BoolLike;
+    // The CSS length of the PDF page margins. For example, "1cm".
+    pdfMargin?: string | number;
+    // The CSS media type to use for the PDF. "screen" or "print".
+    pdfMedia?: string;
+    // Whether or not to print the background colors and images in the PDF
+    pdfPrintBackground?: BoolLike;
     // Whether or not to save the screenshot as a png
     png?: BoolLike;
     // The image quality if the screenshot is a jpg
     quality?: number | string;
+    // Whether or not to emulate the reduced motion preference. "reduce", "no-preference", or true for "reduce".
+    // Set to false to not emulate the preference.
+    reducedMotion?: BoolLike | string;
+    // Whether or not to save an index.html report in the directory that shows each screenshot
+    report?: BoolLike;
+    // The requests to send to a different URL. The keys are the start of the URLs, or regular expressions, and the values are
+    // what to replace them with. It can also be one or more "from=to" strings. Set to false to not rewrite any requests.
+    rewriteRequests?: Record<string, string> | string | string[] | false;
     // The number of milliseconds to delay after each scroll to allow the content to load.
     // This is used to allow time for lazy loading of images or animations that are triggered by the scroll to complete.
     scrollDelay?: number | string;
-    // This determines the maximum pixel height of the screenshot that can be taken natively before falling back to stitching screenshots together. It's based on the maximum texture size supported by Chromium's software GL backend. Visit https://webglreport.com/ in Chrome and check the 'Max Texture Size' value to see the maximum texture size supported by the browser.
+    // The CSS selector, or an array of selectors, of the elements to take screenshots of instead of the page.
+    // A screenshot is taken of each element that matches. Set to false to take a screenshot of the page.
+    selector?: string | string[] | false;
+    // The number of pixels of padding to include around each element screenshot
+    selectorPadding?: number | string;
+    // This determines the maximum pixel height of the screenshot that can be taken natively before falling back to stitching screenshots together.
+    // It's based on the maximum texture size supported by Chromium's software GL backend.
+    // Visit https://webglreport.com/ in Chrome and check the 'Max Texture Size' value to see the maximum texture size supported by the browser.
     stitchThreshold?: number | string;
+    // The aspect ratio to crop the thumbnails to if they don't set their own crop value. For example, "16:9".
+    thumbnailCrop?: string | number | false;
+    // The smaller copies of the screenshot to save. Each thumbnail can be the width or an object with the thumbnail settings.
+    // Set to false to not save any thumbnails.
+    thumbnails?:
+        | (number | string | ThumbnailParam)[]
+        | number
+        | string
+        | ThumbnailParam
+        | false;
+    // The maximum number of milliseconds to wait for the page to load and for the screenshot to be taken
+    timeout?: number | string;
+    // The IANA time zone to emulate, like "Europe/Paris". Set to false to use the time zone of the computer.
+    timezone?: string | false;
     // The file type to use for the screenshots
-    type?: ImageFormat;
+    type?: FileType;
     // The list of URLs to get screenshots for
     urls?: string[]; // JSON config
     // The wait until value to use for the page
     // See https://pptr.dev/api/puppeteer.puppeteerlifecycleevent
-    // domcontentloaded: Wait for the for the DOMContentLoaded event, which occurs once the HTML document has been completely loaded and parsed. This does not guarantee that stylesheets, images, or any other resources are loaded.
+    // domcontentloaded: Wait for the for the DOMContentLoaded event, which occurs once the HTML document has been completely loaded and parsed.
+    // This does not guarantee that stylesheets, images, or any other resources are loaded.
     // load: Wait for the load event. This signals that the entire page and all its resources such as images, stylesheets, javascript, etc. have been fully loaded.
     // networkidle0: The networkidle0 event is fired when there are activenetwork connections for at least 500 ms.
     // networkidle2: The networkidle2 event is fired when there are no more than 2 active network connections for at least 500 ms.
     waitUntil?: string;
+    // Whether or not to wait for the web fonts to load. It can be true, the number of milliseconds to wait, or an object with a "timeout" value.
+    waitForFonts?: BoolLike | number | string | WaitForParam;
+    // A JavaScript expression that is evaluated in the page. The screenshot waits until it returns a truthy value.
+    // It can also be an object with "script" and "timeout" values. Set to false to not wait.
+    waitForFunction?: string | (WaitForParam & { script: string }) | false;
+    // Whether or not to wait for all images to load, including lazy loaded images. It can be true, the number of milliseconds to wait, or an object with a "timeout" value.
+    waitForImages?: BoolLike | number | string | WaitForParam;
+    // Whether or not to wait until there are no network connections. It can be true, the number of milliseconds to wait,
+    // or an object with "idleTime" and "timeout" values. The idle time is the number of milliseconds without network connections.
+    waitForNetworkIdle?:
+        | BoolLike
+        | number
+        | string
+        | (WaitForParam & { idleTime?: number | string });
+    // The CSS selector of an element to wait for. It can also be an object with "selector" and "timeout" values. Set to false to not wait.
+    waitForSelector?: string | (WaitForParam & { selector: string }) | false;
     // Whether or not to save the screenshot as a webp
     webp?: BoolLike;
     // The width of the viewport to take the screenshot in
@@ -84,11 +385,12 @@ type BaseConfigParam = {
 };
 
 // The size object type if the size parameter is an object
+// The height and width are required unless a device is set.
 export type SizeParamObject = BaseConfigParam & {
     // The height of the viewport to take the screenshot in
-    height: number | string;
+    height?: number | string;
     // The width of the viewport to take the screenshot in
-    width: number | string;
+    width?: number | string;
 };
 
 // The size value type
@@ -103,6 +405,22 @@ export type UrlParamObject = BaseConfigParam & {
 export type UrlParam = string | UrlParamObject;
 
 export type ConfigParam = BaseConfigParam & {
+    // The maximum number of screenshots to take at the same time
+    concurrency?: number | string;
+    // The login flow to run before taking screenshots of protected pages. Set to false to not log in.
+    login?: LoginParam | false;
+    // When the command line should exit with an error code because screenshots failed.
+    // "any" if any screenshot failed, "all" if every screenshot failed, or "never".
+    // true is the same as "any" and false is the same as "never".
+    failOnError?: BoolLike | FailOnError;
+    // The number of times to retry a screenshot that failed or timed out
+    retries?: number | string;
+    // One or more sitemaps to get the URLs from
+    sitemap?: SitemapParam | SitemapParam[];
+    // One or more glob or regular expression patterns to exclude sitemap URLs
+    sitemapExclude?: string | string[];
+    // One or more glob or regular expression patterns to include sitemap URLs
+    sitemapInclude?: string | string[];
     // Holds one or more viewport sizes to get the screenshot in
     size?: SizeParam;
     sizes?: SizeParam;
@@ -112,6 +430,146 @@ export type ConfigParam = BaseConfigParam & {
     urls?: UrlParam[]; // JSON config
 };
 
+// The action configuration
+export type Action = {
+    action: ActionType;
+    key?: string;
+    name?: string;
+    script?: string;
+    selector?: string;
+    text?: string;
+    y?: number;
+};
+
+// The HTTP authentication configuration
+export type HttpAuth = {
+    password: string;
+    username: string;
+};
+
+// The geolocation configuration
+export type Geolocation = {
+    accuracy: number;
+    latitude: number;
+    longitude: number;
+};
+
+// The login configuration
+export type LoginConfig = {
+    fields: { selector: string; value: string }[];
+    submit: string;
+    successSelector: string;
+    successUrl: string;
+    url: string;
+};
+
+// The session state after logging in. It's copied into the browser context for each screenshot.
+export type LoginSession = {
+    cookies: CookieData[];
+    // The local storage names and values for the origin of the page after logging in
+    localStorage: [string, string][];
+    origin: string;
+};
+
+// A condition to wait for before the screenshot is taken
+export type WaitFor = {
+    // The maximum number of milliseconds to wait. If not set then the "timeout" value is used.
+    timeout?: number;
+};
+
+// The condition to wait until there are no network connections
+export type WaitForNetworkIdle = WaitFor & {
+    idleTime: number;
+};
+
+// The condition to wait until a JavaScript expression returns a truthy value
+export type WaitForFunction = WaitFor & {
+    script: string;
+};
+
+// The condition to wait until an element is on the page
+export type WaitForSelector = WaitFor & {
+    selector: string;
+};
+
+// When a run of screenshots is considered to have failed
+export type FailOnError = 'all' | 'any' | 'never';
+
+// The sitemap configuration type. This is the configuration for a single sitemap.
+export type SitemapConfig = {
+    exclude: string[];
+    include: string[];
+    url: string;
+};
+
+// The file types that the screenshots can be saved as
+export type FileType = ImageFormat | 'avif' | 'pdf';
+
+// The color schemes that can be emulated. "both" takes a screenshot in each of the light and dark color schemes.
+export type ColorScheme = 'both' | 'dark' | 'light';
+
+// The image optimization type
+export type Optimize = {
+    avif: { effort: number; lossless: boolean };
+    jpeg: { mozjpeg: boolean };
+    // 0 to not limit the image size
+    maxDimension: number;
+    png: { compressionLevel: number; palette: boolean };
+    stripMetadata: boolean;
+    webp: { effort: number; lossless: boolean };
+};
+
+// The PDF type
+export type Pdf = {
+    format: LowerCasePaperFormat;
+    landscape: boolean;
+    margin: {
+        bottom: string | number;
+        left: string | number;
+        right: string | number;
+        top: string | number;
+    };
+    media: 'print' | 'screen';
+    printBackground: boolean;
+};
+
+// The thumbnail type
+export type Thumbnail = {
+    // The width divided by the height of the aspect ratio to crop the screenshot to, or false to not crop it
+    crop: false | number;
+    // The text that is added to the end of the file name
+    suffix: string;
+    width: number;
+};
+
+// The HAR file settings
+export type Har = {
+    // Whether to save the responses to the HAR file or to respond to the requests from it
+    mode: 'record' | 'replay';
+    // What to do with the requests that aren't in the HAR file when replaying
+    notFound: 'abort' | 'fallback';
+    // The path to the HAR file
+    path: string;
+};
+
+// The requests to block
+export type BlockRequests = {
+    // The glob or regular expression patterns of the URLs to block
+    patterns: string[];
+    // The resource types to block, like "font" or "media"
+    resourceTypes: ResourceType[];
+    // Whether or not to block the requests to other sites
+    thirdParty: boolean;
+};
+
+// A rule to send requests to a different URL
+export type RewriteRequest = {
+    // The start of the URL, or a regular expression, to match
+    from: string;
+    // The value to replace the matched part of the URL with
+    to: string;
+};
+
 // The clip type
 export type Clip = {
     x: number;
@@ -120,24 +578,70 @@ export type Clip = {
     height: number;
 };
 
+// The crawl type
+export type Crawl = {
+    depth: number;
+    ignoreParams: string[];
+    limit: number;
+};
+
 // The base configuration type. This is the configuration object without the "sizes" or "urls" properties because
 // those can include these configuration parameters.
 type BaseConfig = {
+    actions: Action[];
     baseUrl: string;
+    blockRequests: false | BlockRequests;
+    captureAt: number[];
     clip: false | Clip;
+    colorScheme: false | ColorScheme;
+    cookies: CookieParam[];
+    cpuThrottle: number;
+    crawl: false | Crawl;
     delay: number;
+    device: string;
     deviceScaleFactor: number;
     dir: string;
+    disableAnimations: boolean;
     fileName: string;
-    fileType: ImageFormat;
+    fileType: FileType;
+    fixedTime: false | number;
+    forcedColors: false | 'active' | 'none';
     fullScreen: boolean;
+    geolocation: false | Geolocation;
+    har: false | Har;
+    headers: Record<string, string>;
     height: number;
     hideSelector?: string[];
+    httpAuth: false | HttpAuth;
+    injectCss: string[];
+    injectScript: string[];
+    locale: string;
+    login: false | LoginConfig;
     hideStitchSelector?: string[];
+    manifest: boolean;
+    maskColor: string;
+    maskSelector: string[];
+    media: false | 'print' | 'screen';
     nameFormat: string;
+    network: false | NetworkConditions;
+    optimize: false | Optimize;
+    pdf: Pdf;
     quality: number;
+    reducedMotion: false | 'no-preference' | 'reduce';
+    report: boolean;
+    rewriteRequests: RewriteRequest[];
     scrollDelay: number;
+    selector: string[];
+    selectorPadding: number;
     stitchThreshold: number;
+    thumbnails: Thumbnail[];
+    timeout: number;
+    timezone: string;
+    waitForFonts: false | WaitFor;
+    waitForFunction: false | WaitForFunction;
+    waitForImages: false | WaitFor;
+    waitForNetworkIdle: false | WaitForNetworkIdle;
+    waitForSelector: false | WaitForSelector;
     waitUntil: PuppeteerLifeCycleEvent;
     width: number;
 };
@@ -156,17 +660,187 @@ export type UrlConfig = BaseConfig & {
 
 // The configuration type
 export type Config = BaseConfig & {
+    blockAdsAndCookieNotices: boolean;
+    concurrency: number;
+    failOnError: FailOnError;
+    retries: number;
     sizes: SizeParamObject[];
     urls: UrlParamObject[];
 };
 
+// The crawl information for a queued URL
+export type CrawlJob = {
+    // Whether or not to collect the links on the page. Links are only collected once for each URL, even if there are multiple sizes.
+    collectLinks: boolean;
+    // The configuration that discovered URLs are set up with
+    config: Config;
+    // The link depth of the URL from the starting URL
+    depth: number;
+    // The normalized URLs that have been queued. It's shared by all of the URLs in the configuration.
+    queued: Set<string>;
+    // The URL parameter object that the URL was set up from. Discovered URLs inherit its values.
+    urlParam: UrlParamObject;
+};
+
+// The element that an element screenshot is taken of
+export type ElementData = {
+    // The index of the element within the elements that match the selector
+    index: number;
+    // The CSS selector that matched the element
+    selector: string;
+};
+
 // The URL data object after it has been set up
 export type UrlData = UrlConfig & {
+    crawlJob?: CrawlJob;
     path: string;
+    // The directory of the configuration that the screenshot result is reported in
+    reportDir?: string;
+    // The element that the screenshot is taken of
+    element?: ElementData;
+    // The locale that is added to the file name when it's different from the locale of the configuration
+    localeSuffix?: string;
+    // The color scheme of the screenshot when a screenshot is taken in both of the light and dark color schemes
+    scheme?: 'dark' | 'light';
+    // The name of the action step that the screenshot is taken at
+    step?: string;
+    // The thumbnail that the path is for
+    thumbnail?: Thumbnail;
 };
 
 // The size data object after it has been set up
 export type SizeData = SizeConfig & {
+    crawlJob?: CrawlJob;
+    path: string;
+    // The directory of the configuration that the screenshot result is reported in
+    reportDir?: string;
+    // The element that the screenshot is taken of
+    element?: ElementData;
+    // The locale that is added to the file name when it's different from the locale of the configuration
+    localeSuffix?: string;
+    // The color scheme of the screenshot when a screenshot is taken in both of the light and dark color schemes
+    scheme?: 'dark' | 'light';
+    // The name of the action step that the screenshot is taken at
+    step?: string;
+    // The thumbnail that the path is for
+    thumbnail?: Thumbnail;
+    url: string;
+};
+
+// A screenshot that was taken of an element that matched the "selector" option
+export type ElementScreenshot = ElementData & {
+    // The pixel height of the saved image
+    imageHeight: number;
+    // The pixel width of the saved image
+    imageWidth: number;
+    // The path that the screenshot was saved at
+    path: string;
+    // The thumbnails of the screenshot
+    thumbnails?: ThumbnailScreenshot[];
+};
+
+// A thumbnail that was saved from a screenshot
+export type ThumbnailScreenshot = {
+    // The pixel height of the saved image
+    imageHeight: number;
+    // The pixel width of the saved image
+    imageWidth: number;
+    // The path that the thumbnail was saved at
+    path: string;
+    // The text that was added to the end of the file name
+    suffix: string;
+};
+
+// A screenshot that was taken at a "screenshot" action step or at a "captureAt" time
+export type StepScreenshot = {
+    // The name of the step, or the time for a "captureAt" screenshot, like "1500ms"
+    name: string;
+    // The path that the screenshot was saved at
     path: string;
+};
+
+// The result of taking a screenshot for a single URL and size
+export type ScreenshotResult = {
+    // The number of times that the screenshot was attempted
+    attempts: number;
+    // The name of the device that was emulated
+    device?: string;
+    // The color scheme that was emulated
+    colorScheme?: 'dark' | 'light';
+    // The device scale factor that the screenshot was taken with
+    deviceScaleFactor: number;
+    // The number of milliseconds that it took to take the screenshot
+    duration: number;
+    // The screenshots of the elements that matched the "selector" option
+    elements?: ElementScreenshot[];
+    // The error message if the screenshot could not be taken
+    error?: string;
+    // The index of the action that failed
+    failedAction?: number;
+    // The file type that the screenshot was saved as
+    fileType: FileType;
+    // The URL of the page after any redirects
+    finalUrl?: string;
+    // Whether or not the screenshot was a full page screenshot
+    fullScreen: boolean;
+    // The height of the viewport that the screenshot was taken in
+    height: number;
+    // The pixel height of the saved image
+    imageHeight?: number;
+    // The pixel width of the saved image
+    imageWidth?: number;
+    // The locale that the page was requested in
+    locale?: string;
+    // The path that the screenshot was saved at
+    path: string;
+    // The HTTP status code of the page response
+    status?: number;
+    // The screenshots that were taken at "screenshot" action steps and at the "captureAt" times
+    steps?: StepScreenshot[];
+    // Whether or not the full page screenshot was stitched together from multiple screenshots
+    stitched: boolean;
+    // Whether or not the screenshot was taken and saved
+    success: boolean;
+    // The thumbnails of the screenshot
+    thumbnails?: ThumbnailScreenshot[];
+    // The URL that the screenshot was taken of
     url: string;
+    // The width of the viewport that the screenshot was taken in
+    width: number;
+};
+
+// The options for comparing a set of screenshots against a baseline set of screenshots
+export type CompareParam = {
+    // The directory to save the diff images in
+    diffDir?: string;
+    // The maximum ratio (0-1) of mismatched pixels allowed before the comparison fails
+    threshold?: number | string;
+    // The maximum difference (0-255) allowed between the color channels of two pixels before they are considered different
+    tolerance?: number | string;
+};
+
+// The result of comparing a screenshot against its baseline screenshot
+export type CompareResult = {
+    // The path to the baseline screenshot
+    baselinePath: string;
+    // The path to the current screenshot
+    currentPath: string;
+    // The path to the diff image
+    diffPath: string;
+    // The height of the compared area. This is the tallest height of the two screenshots.
+    height: number;
+    // The ratio (0-1) of pixels that are different
+    mismatchRatio: number;
+    // The number of pixels that are different
+    mismatchedPixels: number;
+    // Whether or not the current screenshot is missing. A missing screenshot doesn't pass and doesn't have a diff image.
+    missing: boolean;
+    // The file name that was used to pair the screenshots
+    name: string;
+    // Whether or not the mismatch ratio is within the threshold
+    passed: boolean;
+    // Whether or not the screenshots had different dimensions and had to be padded
+    sizeMismatch: boolean;
+    // The width of the compared area. This is the widest width of the two screenshots.
+    width: number;
 };
@@ -0,0 +1,195 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import fs from 'fs-extra';
+import { after, before, describe, it } from 'mocha';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import sharp from 'sharp';
+
+import { compareScreenshots } from '../src/compare.js';
+
+// Set up the chai-as-promised plugin
+use(chaiAsPromised);
+
+/**
+ * Saves an image with one color and an optional block of another color in the top left corner.
+ * The image format comes from the file extension.
+ *
+ * @param {string} path The path to save the image at
+ * @param {number} width The image width
+ * @param {number} height The image height
+ * @param {object} color The RGB color of the image
+ * @param {object} [block] The size and RGB color of the block
+ * @returns {Promise<void>}
+ */
+const saveImage = async (path, width, height, color, block) => {
+    const composite = [];
+    if (block) {
+        composite.push({
+            input: {
+                create: {
+                    width: block.width,
+                    height: block.height,
+                    channels: 3,
+                    background: block.color,
+                },
+            },
+            left: 0,
+            top: 0,
+        });
+    }
+    fs.ensureDirSync(join(path, '..'));
+    await sharp({ create: { width, height, channels: 3, background: color } })
+        .composite(composite)
+        .toFormat(extname(path).slice(1), { lossless: true })
+        .toFile(path);
+};
+
+describe('compareScreenshots', () => {
+    const white = { r: 255, g: 255, b: 255 };
+    let dir;
+    let baselineDir;
+    let currentDir;
+    let diffDir;
+
+    before(async () => {
+        dir = fs.mkdtempSync(join(tmpdir(), 'page-shots-compare-'));
+        baselineDir = join(dir, 'baseline');
+        currentDir = join(dir, 'current');
+        diffDir = join(dir, 'diff');
+
+        // The same image
+        await saveImage(join(baselineDir, 'same.png'), 10, 10, white);
+        await saveImage(join(currentDir, 'same.png'), 10, 10, white);
+
+        // A 5x2 block in a 10x10 image changed, which is 10% of the pixels
+        await saveImage(join(baselineDir, 'block.png'), 10, 10, white);
+        await saveImage(join(currentDir, 'block.png'), 10, 10, white, {
+            width: 5,
+            height: 2,
+            color: { r: 0, g: 0, b: 0 },
+        });
+
+        // Every pixel is slightly different
+        await saveImage(join(baselineDir, 'shade.png'), 10, 10, white);
+        await saveImage(join(currentDir, 'shade.png'), 10, 10, {
+            r: 250,
+            g: 250,
+            b: 250,
+        });
+
+        // The page got taller
+        await saveImage(join(baselineDir, 'nested/taller.png'), 10, 10, white);
+        await saveImage(join(currentDir, 'nested/taller.png'), 10, 15, white);
+
+        // An avif screenshot
+        await saveImage(join(baselineDir, 'avif.avif'), 10, 10, white);
+        await saveImage(join(currentDir, 'avif.avif'), 10, 10, white, {
+            width: 10,
+            height: 1,
+            color: { r: 0, g: 0, b: 0 },
+        });
+
+        // Only in one of the directories
+        await saveImage(join(baselineDir, 'removed.png'), 10, 10, white);
+        await saveImage(join(currentDir, 'added.png'), 10, 10, white);
+    });
+
+    after(() => {
+        fs.removeSync(dir);
+    });
+
+    /**
+     * Compares the screenshots and returns the results keyed by name
+     *
+     * @param {object} [options] The comparison options
+     * @returns {Promise<object>}
+     */
+    const compare = async (options = {}) => {
+        const results = await compareScreenshots(baselineDir, currentDir, {
+            diffDir,
+            ...options,
+        });
+        return Object.fromEntries(
+            results.map((result) => [result.name, result])
+        );
+    };
+
+    it('should compare each baseline screenshot', async () => {
+        const results = await compare();
+        expect(Object.keys(results)).to.have.members([
+            'avif.avif',
+            'block.png',
+            'nested/taller.png',
+            'removed.png',
+            'same.png',
+            'shade.png',
+        ]);
+    });
+    it('should fail the baseline screenshots that do not have a current screenshot', async () => {
+        const { 'removed.png': result } = await compare({ threshold: 1 });
+        expect(result.missing).to.equal(true);
+        expect(result.passed).to.equal(false);
+        expect(result.mismatchRatio).to.equal(1);
+        expect(result.diffPath).to.equal('');
+        expect((await compare())['same.png'].missing).to.equal(false);
+    });
+    it('should pass the same images', async () => {
+        const { 'same.png': result } = await compare();
+        expect(result.passed).to.equal(true);
+        expect(result.mismatchedPixels).to.equal(0);
+        expect(result.mismatchRatio).to.equal(0);
+        expect(result.sizeMismatch).to.equal(false);
+    });
+    it('should count the changed pixels', async () => {
+        const { 'block.png': result } = await compare();
+        expect(result.mismatchedPixels).to.equal(10);
+        expect(result.mismatchRatio).to.equal(0.1);
+        expect(result.passed).to.equal(false);
+    });
+    it('should pass if the mismatch ratio is within the threshold', async () => {
+        expect(
+            (await compare({ threshold: 0.1 }))['block.png'].passed
+        ).to.equal(true);
+        expect(
+            (await compare({ threshold: '0.09' }))['block.png'].passed
+        ).to.equal(false);
+    });
+    it('should ignore the color differences that are within the tolerance', async () => {
+        expect((await compare())['shade.png'].mismatchedPixels).to.equal(100);
+        expect(
+            (await compare({ tolerance: 5 }))['shade.png'].mismatchedPixels
+        ).to.equal(0);
+        expect(
+            (await compare({ tolerance: 4 }))['shade.png'].mismatchedPixels
+        ).to.equal(100);
+    });
+    it('should pad the smaller image and count the padding as changed', async () => {
+        const { 'nested/taller.png': result } = await compare({
+            tolerance: 254,
+        });
+        expect(result.sizeMismatch).to.equal(true);
+        expect(result.width).to.equal(10);
+        expect(result.height).to.equal(15);
+        // The padded rows are transparent so they are different even with a high tolerance
+        expect(result.mismatchedPixels).to.equal(50);
+    });
+    it('should compare avif screenshots', async () => {
+        const { 'avif.avif': result } = await compare({ tolerance: 10 });
+        expect(result.mismatchedPixels).to.equal(10);
+        expect(result.diffPath).to.equal(join(diffDir, 'avif.png'));
+    });
+    it('should save a png diff image for each pair', async () => {
+        const { 'nested/taller.png': result } = await compare();
+        expect(result.diffPath).to.equal(join(diffDir, 'nested/taller.png'));
+        const metadata = await sharp(result.diffPath).metadata();
+        expect(metadata.format).to.equal('png');
+        expect(metadata.width).to.equal(10);
+        expect(metadata.height).to.equal(15);
+    });
+    it('should reject if the baseline directory does not exist', async () => {
+        await expect(
+            compareScreenshots(join(dir, 'missing'), currentDir)
+        ).to.be.rejectedWith('does not exist');
+    });
+});
@@ -0,0 +1,388 @@
+import { assert, expect } from 'chai';
+import { after, before, describe, it } from 'mocha';
+import { KnownDevices } from 'puppeteer';
+
+import { ConfigParser, maxDelay } from '../src/config.js';
+
+/**
+ * Parses the configuration data and returns the configuration
+ *
+ * @param {object} data The configuration data
+ * @returns {object}
+ */
+const parse = (data) => {
+    const parser = new ConfigParser();
+    parser.parse(data);
+    return parser.getConfig();
+};
+
+// Confirm that the base URL is properly set
+describe('baseUrl', () => {
+    it('should set valid base URL', () => {
+        assert.equal(
+            parse({ baseUrl: 'http://mysite.com' }).baseUrl,
+            'http://mysite.com'
+        );
+    });
+    it('should set valid base URL with the / removed', () => {
+        assert.equal(
+            parse({ baseUrl: 'http://mysite.com/' }).baseUrl,
+            'http://mysite.com'
+        );
+    });
+    it('should accept the "base" alias', () => {
+        assert.equal(
+            parse({ base: 'https://mysite.com/' }).baseUrl,
+            'https://mysite.com'
+        );
+    });
+});
+
+// Confirm that the directory gets properly set
+describe('dir', () => {
+    it('should set the directory', () => {
+        assert.equal(parse({ dir: 'testdir' }).dir, 'testdir');
+    });
+    it('should remove the trailing "/"', () => {
+        assert.equal(parse({ dir: 'testdir/' }).dir, 'testdir');
+    });
+});
+
+// Confirm that the file type gets properly set
+describe('type', () => {
+    it('should set the file type to png', () => {
+        assert.equal(parse({ type: 'png' }).fileType, 'png');
+    });
+    it('should set the file type to jpeg for jpg', () => {
+        assert.equal(parse({ type: 'jpg' }).fileType, 'jpeg');
+    });
+    it('should not allow an invalid file type to be set', () => {
+        assert.equal(parse({ type: 'gif' }).fileType, 'jpeg');
+    });
+});
+
+// Confirm that adding URLs works
+describe('urls', () => {
+    it('should add a single URL', () => {
+        const config = parse({ url: 'https://mysite.com' });
+        expect(config.urls).to.deep.equal([{ url: 'https://mysite.com' }]);
+    });
+    it('should add 2 URLs', () => {
+        const config = parse({ urls: ['URL', 'URL2'] });
+        expect(config.urls).to.have.lengthOf(2);
+    });
+    it('should add a URL object', () => {
+        const config = parse({ urls: [{ url: '/page', name: 'page.png' }] });
+        expect(config.urls).to.deep.equal([{ url: '/page', name: 'page.png' }]);
+    });
+    it('should not add a URL object without a URL', () => {
+        const config = parse({ urls: [{ name: 'page.png' }] });
+        expect(config.urls).to.have.lengthOf(0);
+    });
+});
+
+// Confirm that setting the file name works
+describe('name', () => {
+    it('should set the file name and type for a simple name', () => {
+        const config = parse({ name: 'home.png' });
+        assert.equal(config.fileName, 'home.png');
+        assert.equal(config.fileType, 'png');
+    });
+    it('should set the name pattern', () => {
+        const name = '{url}-{width}-{height}';
+        const config = parse({ name });
+        assert.equal(config.nameFormat, name);
+        assert.equal(config.fileName, '');
+    });
+});
+
+// Confirm setting a delay
+describe('delay', () => {
+    it('should default to 0', () => {
+        assert.equal(parse({ url: 'URL' }).delay, 0);
+    });
+    it('should set a number delay', () => {
+        assert.equal(parse({ delay: 1000 }).delay, 1000);
+    });
+    it(`should not go above ${maxDelay}`, () => {
+        assert.equal(parse({ delay: 100000 }).delay, maxDelay);
+    });
+    it('should not go below 0', () => {
+        assert.equal(parse({ delay: -1 }).delay, 0);
+    });
+    it('should ignore strings', () => {
+        assert.equal(parse({ delay: 'time' }).delay, 0);
+    });
+    it('should parse number strings', () => {
+        assert.equal(parse({ delay: '300' }).delay, 300);
+    });
+});
+
+describe('sizes', () => {
+    it('should add a size from a string', () => {
+        const { sizes } = parse({ size: '200x100' });
+        expect(sizes).to.deep.equal([{ width: 200, height: 100 }]);
+    });
+    it('should not add a size from an invalid string', () => {
+        const { sizes } = parse({ size: '200px / 100px' });
+        expect(sizes).to.have.lengthOf(0);
+    });
+    it('should accept an array with multiple string sizes', () => {
+        const { sizes } = parse({ sizes: ['1000x800', '800x600', '400x200'] });
+        expect(sizes).to.deep.equal([
+            { width: 1000, height: 800 },
+            { width: 800, height: 600 },
+            { width: 400, height: 200 },
+        ]);
+    });
+    it('should not accept an array with incorrect values', () => {
+        const { sizes } = parse({ sizes: ['blah'] });
+        expect(sizes).to.have.lengthOf(0);
+    });
+    it('should accept an object for the width and height values', () => {
+        const { sizes } = parse({ size: { width: 800, height: 400 } });
+        expect(sizes).to.deep.equal([{ width: 800, height: 400 }]);
+    });
+    it('should not accept an object that is missing the width', () => {
+        const { sizes } = parse({ size: { x: 800, height: 400 } });
+        expect(sizes).to.have.lengthOf(0);
+    });
+    it('should not accept an object that is missing the height', () => {
+        const { sizes } = parse({ size: { width: 800 } });
+        expect(sizes).to.have.lengthOf(0);
+    });
+    it('should accept a device name', () => {
+        const { sizes } = parse({ sizes: ['iPhone 15'] });
+        expect(sizes).to.deep.equal([{ device: 'iPhone 15' }]);
+    });
+});
+
+describe('device', () => {
+    const { viewport } = KnownDevices['iPhone 15'];
+
+    it('should set the viewport from the device', () => {
+        const config = parse({ device: 'iPhone 15' });
+        assert.equal(config.device, 'iPhone 15');
+        assert.equal(config.width, viewport.width);
+        assert.equal(config.height, viewport.height);
+        assert.equal(config.deviceScaleFactor, viewport.deviceScaleFactor);
+    });
+    it('should keep the device viewport if the command line options do not set the width and height', () => {
+        const parser = new ConfigParser();
+        // The JSON config file
+        parser.parse({ device: 'iPhone 15' });
+        // The command line options
+        parser.parse({ type: 'png' });
+        const config = parser.getConfig();
+        assert.equal(config.width, viewport.width);
+        assert.equal(config.height, viewport.height);
+    });
+    it('should let the width and height override the device viewport', () => {
+        const parser = new ConfigParser();
+        parser.parse({ device: 'iPhone 15' });
+        parser.parse({ height: '700', width: '500' });
+        const config = parser.getConfig();
+        assert.equal(config.width, 500);
+        assert.equal(config.height, 700);
+        assert.equal(config.deviceScaleFactor, viewport.deviceScaleFactor);
+    });
+    it('should not emulate the device for a size with its own width and height', () => {
+        const parser = new ConfigParser(parse({ device: 'iPhone 15' }));
+        parser.setDoNotProcessSizes();
+        parser.setDoNotProcessUrls();
+        parser.parseSize({ height: 600, width: 800 });
+        const config = parser.getConfig();
+        assert.equal(config.device, '');
+        assert.equal(config.deviceScaleFactor, 1);
+        assert.equal(config.width, 800);
+        assert.equal(config.height, 600);
+    });
+    it('should emulate the device for a size without a width and height', () => {
+        const parser = new ConfigParser(parse({ device: 'iPhone 15' }));
+        parser.setDoNotProcessSizes();
+        parser.setDoNotProcessUrls();
+        parser.parseSize({ fit: true });
+        const config = parser.getConfig();
+        assert.equal(config.device, 'iPhone 15');
+        assert.equal(config.width, viewport.width);
+        assert.equal(config.deviceScaleFactor, viewport.deviceScaleFactor);
+    });
+    it('should keep the pixel ratio of a size that sets its own width and height', () => {
+        const parser = new ConfigParser(parse({ device: 'iPhone 15' }));
+        parser.setDoNotProcessSizes();
+        parser.setDoNotProcessUrls();
+        parser.parseSize({ height: 600, pixelRatio: 2, width: 800 });
+        assert.equal(parser.getConfig().deviceScaleFactor, 2);
+    });
+});
+
+/* eslint-disable no-template-curly-in-string -- The ${NAME} environment variable syntax is tested */
+describe('authentication', () => {
+    before(() => {
+        process.env.PAGE_SHOTS_TEST_SECRET = 'secret';
+    });
+
+    after(() => {
+        delete process.env.PAGE_SHOTS_TEST_SECRET;
+    });
+
+    it('should set the HTTP authentication from a string', () => {
+        expect(parse({ httpAuth: 'user:pass:word' }).httpAuth).to.deep.equal({
+            password: 'pass:word',
+            username: 'user',
+        });
+    });
+    it('should replace the environment variables in the HTTP authentication', () => {
+        expect(
+            parse({
+                httpAuth: {
+                    password: '${PAGE_SHOTS_TEST_SECRET}',
+                    username: 'user',
+                },
+            }).httpAuth
+        ).to.deep.equal({ password: 'secret', username: 'user' });
+    });
+    it('should not set the HTTP authentication without a username', () => {
+        expect(parse({ httpAuth: 'password' }).httpAuth).to.equal(false);
+    });
+    it('should set the headers from an object', () => {
+        expect(
+            parse({
+                headers: { 'X-Api-Key': 'Key ${PAGE_SHOTS_TEST_SECRET}' },
+            }).headers
+        ).to.deep.equal({ 'X-Api-Key': 'Key secret' });
+    });
+    it('should set the headers from "Name: value" strings', () => {
+        expect(
+            parse({ headers: ['X-One: 1', 'X-Two: a:b', 'invalid'] }).headers
+        ).to.deep.equal({ 'X-One': '1', 'X-Two': 'a:b' });
+    });
+    it('should only set the cookies that have a name and a value', () => {
+        expect(
+            parse({
+                cookies: [
+                    { name: 'session', value: '${PAGE_SHOTS_TEST_SECRET}' },
+                    { name: 'empty' },
+                    { value: 'no-name' },
+                ],
+            }).cookies
+        ).to.deep.equal([{ name: 'session', value: 'secret' }]);
+    });
+});
+/* eslint-enable no-template-curly-in-string */
+
+describe('media emulation', () => {
+    it('should set the color scheme', () => {
+        assert.equal(parse({ colorScheme: 'Dark' }).colorScheme, 'dark');
+        assert.equal(parse({ colorScheme: 'both' }).colorScheme, 'both');
+    });
+    it('should not set an invalid color scheme', () => {
+        assert.equal(parse({ colorScheme: 'blue' }).colorScheme, false);
+    });
+    it('should set the reduced motion preference', () => {
+        assert.equal(parse({ reducedMotion: true }).reducedMotion, 'reduce');
+        assert.equal(
+            parse({ reducedMotion: 'no-preference' }).reducedMotion,
+            'no-preference'
+        );
+        assert.equal(parse({ reducedMotion: 'fast' }).reducedMotion, false);
+    });
+    it('should set the media type', () => {
+        assert.equal(parse({ media: 'print' }).media, 'print');
+        assert.equal(parse({ media: 'tv' }).media, false);
+    });
+    it('should let a size override the color scheme', () => {
+        const config = parse({ colorScheme: 'dark' });
+        const parser = new ConfigParser(config);
+        parser.setDoNotProcessSizes();
+        parser.setDoNotProcessUrls();
+        parser.parse({ colorScheme: false });
+        assert.equal(parser.getConfig().colorScheme, false);
+    });
+});
+
+describe('locale, timezone and geolocation', () => {
+    it('should set the canonical locale', () => {
+        assert.equal(parse({ locale: 'fr-fr' }).locale, 'fr-FR');
+    });
+    it('should not set an invalid locale', () => {
+        assert.equal(parse({ locale: 'not a locale' }).locale, '');
+    });
+    it('should set a valid timezone', () => {
+        assert.equal(
+            parse({ timezone: ' Europe/Paris ' }).timezone,
+            'Europe/Paris'
+        );
+        assert.equal(parse({ timezone: 'Mars/Olympus' }).timezone, '');
+    });
+    it('should set the geolocation from a string', () => {
+        expect(
+            parse({ geolocation: '48.8566,2.3522' }).geolocation
+        ).to.deep.equal({ accuracy: 0, latitude: 48.8566, longitude: 2.3522 });
+    });
+    it('should set the geolocation from an object', () => {
+        expect(
+            parse({
+                geolocation: {
+                    accuracy: 10,
+                    latitude: -33.9,
+                    longitude: 151.2,
+                },
+            }).geolocation
+        ).to.deep.equal({ accuracy: 10, latitude: -33.9, longitude: 151.2 });
+    });
+    it('should not set a geolocation that is out of range', () => {
+        assert.equal(parse({ geolocation: '91,0' }).geolocation, false);
+        assert.equal(parse({ geolocation: 'paris' }).geolocation, false);
+    });
+});
+
+describe('manifest', () => {
+    it('should save the manifest by default', () => {
+        assert.equal(parse({ url: 'URL' }).manifest, true);
+    });
+    it('should not save the manifest if it is turned off', () => {
+        assert.equal(parse({ manifest: 'false' }).manifest, false);
+    });
+});
+
+describe('rewriteRequests', () => {
+    it('should set the rules from FROM=TO strings', () => {
+        expect(
+            parse({
+                rewriteRequests: [
+                    'https://cdn.mysite.com/=http://localhost:8080/',
+                ],
+            }).rewriteRequests
+        ).to.deep.equal([
+            {
+                from: 'https://cdn.mysite.com/',
+                to: 'http://localhost:8080/',
+            },
+        ]);
+    });
+    it('should not set the rules that have more than one "="', () => {
+        expect(
+            parse({
+                rewriteRequests: [
+                    'https://cdn.mysite.com/app.js?v=1=http://localhost:8080/app.js',
+                ],
+            }).rewriteRequests
+        ).to.deep.equal([]);
+    });
+    it('should set the rules from an object with "=" in the URLs', () => {
+        expect(
+            parse({
+                rewriteRequests: {
+                    'https://cdn.mysite.com/app.js?v=1':
+                        'http://localhost:8080/app.js?v=2',
+                },
+            }).rewriteRequests
+        ).to.deep.equal([
+            {
+                from: 'https://cdn.mysite.com/app.js?v=1',
+                to: 'http://localhost:8080/app.js?v=2',
+            },
+        ]);
+    });
+});
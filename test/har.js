@@ -0,0 +1,258 @@
+import { expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import fs from 'fs-extra';
+import { after, before, describe, it } from 'mocha';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+    getRedactedHeaders,
+    HarArchives,
+    toHarHeaders,
+} from '../src/lib/har.js';
+
+// Set up the chai-as-promised plugin
+use(chaiAsPromised);
+
+describe('getRedactedHeaders', () => {
+    it('should redact the credential headers by default', () => {
+        expect(getRedactedHeaders({ headers: {} })).to.have.members([
+            'authorization',
+            'cookie',
+            'proxy-authorization',
+            'set-cookie',
+        ]);
+    });
+    it('should redact the extra headers from the headers setting', () => {
+        expect(
+            getRedactedHeaders({ headers: { 'X-Api-Key': 'key' } })
+        ).to.include('x-api-key');
+    });
+});
+
+describe('toHarHeaders', () => {
+    const redacted = getRedactedHeaders({ headers: { 'X-Api-Key': 'key' } });
+
+    it('should convert the headers object', () => {
+        expect(
+            toHarHeaders({ 'content-type': 'text/html' }, redacted)
+        ).to.deep.equal([{ name: 'content-type', value: 'text/html' }]);
+    });
+    it('should split the values of a header that is set more than once', () => {
+        expect(
+            toHarHeaders({ vary: 'Accept\nOrigin' }, redacted)
+        ).to.deep.equal([
+            { name: 'vary', value: 'Accept' },
+            { name: 'vary', value: 'Origin' },
+        ]);
+    });
+    it('should redact the credentials', () => {
+        expect(
+            toHarHeaders(
+                {
+                    authorization: 'Basic dXNlcjpwYXNz',
+                    cookie: 'session=abc',
+                    'proxy-authorization': 'Basic dXNlcjpwYXNz',
+                    'set-cookie': 'session=abc\ntheme=dark',
+                    'x-api-key': 'key',
+                },
+                redacted
+            )
+        ).to.deep.equal([
+            { name: 'authorization', value: '[REDACTED]' },
+            { name: 'cookie', value: '[REDACTED]' },
+            { name: 'proxy-authorization', value: '[REDACTED]' },
+            { name: 'set-cookie', value: '[REDACTED]' },
+            { name: 'x-api-key', value: '[REDACTED]' },
+        ]);
+    });
+});
+
+describe('HarArchives replay', () => {
+    let dir;
+    let harPath;
+
+    /**
+     * Creates a HAR entry
+     *
+     * @param {string} method The request method
+     * @param {string} url The request URL
+     * @param {string} body The response body
+     * @param {string} [postData] The request body
+     * @returns {object}
+     */
+    const createEntry = (method, url, body, postData) => ({
+        request: {
+            method,
+            url,
+            headers: [],
+            ...(postData
+                ? { postData: { mimeType: 'text/plain', text: postData } }
+                : {}),
+        },
+        response: {
+            status: 200,
+            headers: [
+                { name: 'Content-Type', value: 'text/plain' },
+                { name: 'Content-Encoding', value: 'gzip' },
+                { name: 'Set-Cookie', value: '[REDACTED]' },
+                { name: 'Vary', value: 'Accept' },
+                { name: 'Vary', value: 'Origin' },
+            ],
+            content: {
+                text: Buffer.from(body).toString('base64'),
+                encoding: 'base64',
+            },
+        },
+    });
+
+    /**
+     * Creates a page object that holds the request handler
+     *
+     * @returns {object}
+     */
+    const createPage = () => {
+        const page = {
+            handlers: [],
+            on: (event, handler) => {
+                page.handlers.push(handler);
+            },
+            setRequestInterception: async () => {},
+        };
+        return page;
+    };
+
+    /**
+     * Sends a request to the page handlers and returns how the request was resolved
+     *
+     * @param {object} page The page object
+     * @param {string} method The request method
+     * @param {string} url The request URL
+     * @param {string} [postData] The request body
+     * @returns {object}
+     */
+    const sendRequest = (page, method, url, postData) => {
+        const resolution = {};
+        const request = {
+            abort: (reason) => {
+                resolution.abort = reason;
+            },
+            continue: () => {
+                resolution.continue = true;
+            },
+            continueRequestOverrides: () => ({}),
+            isInterceptResolutionHandled: () => false,
+            method: () => method,
+            postData: () => postData,
+            respond: (response) => {
+                resolution.respond = response;
+            },
+            url: () => url,
+        };
+        page.handlers.forEach((handler) => handler(request));
+        return resolution;
+    };
+
+    before(() => {
+        dir = fs.mkdtempSync(join(tmpdir(), 'page-shots-har-'));
+        harPath = join(dir, 'site.har');
+        fs.writeJsonSync(harPath, {
+            log: {
+                entries: [
+                    createEntry('GET', 'https://www.mysite.com/', 'home'),
+                    createEntry(
+                        'POST',
+                        'https://www.mysite.com/form',
+                        'first',
+                        'a=1'
+                    ),
+                    createEntry(
+                        'POST',
+                        'https://www.mysite.com/form',
+                        'second',
+                        'a=2'
+                    ),
+                ],
+            },
+        });
+    });
+
+    after(() => {
+        fs.removeSync(dir);
+    });
+
+    it('should respond with the recorded response', async () => {
+        const page = createPage();
+        await new HarArchives().apply(page, {
+            har: { mode: 'replay', notFound: 'abort', path: harPath },
+        });
+        const { respond } = sendRequest(page, 'get', 'https://www.mysite.com/');
+        expect(respond.status).to.equal(200);
+        expect(respond.body.toString()).to.equal('home');
+        // The encoding headers and the redacted headers are not replayed
+        expect(respond.headers).to.deep.equal({
+            'content-type': ['text/plain'],
+            vary: ['Accept', 'Origin'],
+        });
+    });
+    it('should use the response with the same request body', async () => {
+        const page = createPage();
+        await new HarArchives().apply(page, {
+            har: { mode: 'replay', notFound: 'abort', path: harPath },
+        });
+        const post = (postData) =>
+            sendRequest(
+                page,
+                'POST',
+                'https://www.mysite.com/form',
+                postData
+            ).respond.body.toString();
+        expect(post('a=2')).to.equal('second');
+        expect(post('a=3')).to.equal('first');
+    });
+    it('should abort the requests that are not in the HAR file', async () => {
+        const page = createPage();
+        await new HarArchives().apply(page, {
+            har: { mode: 'replay', notFound: 'abort', path: harPath },
+        });
+        expect(
+            sendRequest(page, 'GET', 'https://www.mysite.com/about')
+        ).to.deep.equal({
+            abort: 'internetdisconnected',
+        });
+        expect(sendRequest(page, 'GET', 'data:text/plain,hello')).to.deep.equal(
+            { continue: true }
+        );
+    });
+    it('should send the requests that are not in the HAR file to the network with the fallback setting', async () => {
+        const page = createPage();
+        await new HarArchives().apply(page, {
+            har: { mode: 'replay', notFound: 'fallback', path: harPath },
+        });
+        expect(
+            sendRequest(page, 'GET', 'https://www.mysite.com/about')
+        ).to.deep.equal({
+            continue: true,
+        });
+    });
+    it('should reject if the HAR file can not be found', async () => {
+        await expect(
+            new HarArchives().apply(createPage(), {
+                har: {
+                    mode: 'replay',
+                    notFound: 'abort',
+                    path: join(dir, 'missing.har'),
+                },
+            })
+        ).to.be.rejectedWith('could not be found');
+    });
+    it('should reject if the HAR file does not have any entries', async () => {
+        const emptyPath = join(dir, 'empty.har');
+        fs.writeJsonSync(emptyPath, { log: {} });
+        await expect(
+            new HarArchives().apply(createPage(), {
+                har: { mode: 'replay', notFound: 'abort', path: emptyPath },
+            })
+        ).to.be.rejectedWith("doesn't have any entries");
+    });
+});
@@ -0,0 +1,160 @@
+import { assert } from 'chai';
+import { describe, it } from 'mocha';
+
+import { ConfigParser } from '../src/config.js';
+import { getUrlPath, setupUrl } from '../src/lib/helpers.js';
+
+/**
+ * Sets up the URL object from the configuration data
+ *
+ * @param {object} data The configuration data
+ * @param {object} [url] The URL object. Defaults to https://www.mysite.com/about.
+ * @returns {object}
+ */
+const getUrl = (data, url = { url: 'https://www.mysite.com/about' }) => {
+    const parser = new ConfigParser();
+    parser.setDoNotProcessUrls();
+    parser.parse(data);
+    return setupUrl(url, parser.getConfig());
+};
+
+describe('getUrlPath locale', () => {
+    it('should not add the locale if it is the locale of the configuration', () => {
+        const url = getUrl({ locale: 'fr-FR' });
+        assert.equal(url.path, 'mysite-com-about-1300.jpeg');
+    });
+    it('should add the locale if the URL has a different locale', () => {
+        const url = getUrl(
+            {},
+            { url: 'https://www.mysite.com/about', locale: 'fr-FR' }
+        );
+        assert.equal(url.path, 'mysite-com-about-1300-fr-FR.jpeg');
+    });
+    it('should not add the locale if the name includes the {locale} placeholder', () => {
+        const url = getUrl(
+            { name: '{locale}/{urlNoWww}' },
+            { url: 'https://www.mysite.com/about', locale: 'fr-FR' }
+        );
+        assert.equal(url.path, 'fr-FR/mysite-com-about.jpeg');
+    });
+    it('should add the locale before the extension of an explicit file name', () => {
+        const url = getUrl(
+            { name: 'about.png' },
+            { url: 'https://www.mysite.com/about', locale: 'de' }
+        );
+        assert.equal(url.path, 'about-de.png');
+    });
+    it('should add the locale before the color scheme', () => {
+        const url = getUrl(
+            {},
+            { url: 'https://www.mysite.com/about', locale: 'de' }
+        );
+        assert.equal(
+            getUrlPath({ ...url, colorScheme: 'dark', scheme: 'dark' }),
+            'mysite-com-about-1300-de-dark.jpeg'
+        );
+    });
+});
+
+describe('getUrlPath placeholders', () => {
+    const pageUrl = { url: 'https://www.blog.mysite.co.uk/news/my.post' };
+
+    it('should default to the URL without "www" and the width', () => {
+        assert.equal(
+            getUrl({}, pageUrl).path,
+            'blog-mysite-co-uk-news-my-post-1300.jpeg'
+        );
+    });
+    it('should replace the URL placeholders', () => {
+        const url = getUrl(
+            {
+                name: '{url}_{hostname}_{hostnameNoWww}_{domain}_{sld}_{tld}_{subdomain}_{path}',
+            },
+            pageUrl
+        );
+        assert.equal(
+            url.path,
+            'www-blog-mysite-co-uk-news-my-post_www-blog-mysite-co-uk_blog-mysite-co-uk_mysite-co-uk_mysite_co-uk_www-blog_news-my-post.jpeg'
+        );
+    });
+    it('should use "home" for the path of the home page', () => {
+        const url = getUrl(
+            { name: '{path}' },
+            { url: 'https://www.mysite.com/' }
+        );
+        assert.equal(url.path, 'home.jpeg');
+    });
+    it('should replace the size placeholders', () => {
+        const url = getUrl(
+            {
+                name: '{width}-{height}-{size}-{device}-{full}-{quality}',
+                quality: 80,
+            },
+            pageUrl
+        );
+        assert.equal(url.path, '1300-900-1300x900-desktop-full-80.jpeg');
+    });
+    it('should use the device name for the size and device placeholders', () => {
+        const url = getUrl(
+            { device: 'iPhone 15 Pro', name: '{size}-{device}' },
+            pageUrl
+        );
+        assert.equal(url.path, 'iPhone-15-Pro-iPhone-15-Pro.jpeg');
+    });
+    it('should use the default values for the placeholders that are not set', () => {
+        const url = getUrl(
+            { name: '{locale}-{scheme}-{step}-{selector}-{index}' },
+            pageUrl
+        );
+        assert.equal(url.path, 'default-default-final-page-0.jpeg');
+    });
+    it('should add the file type if the name does not have an image extension', () => {
+        assert.equal(
+            getUrl({ name: 'about.html', type: 'png' }, pageUrl).path,
+            'about.html.png'
+        );
+        assert.equal(
+            getUrl({ name: 'about.webp' }, pageUrl).path,
+            'about.webp'
+        );
+    });
+    it('should save the file in the directory', () => {
+        assert.equal(
+            getUrl({ dir: 'shots/', name: 'about.png' }, pageUrl).path,
+            'shots/about.png'
+        );
+    });
+    it('should add the step, selector and index if the name does not include them', () => {
+        const url = getUrl({ name: '{path}' }, pageUrl);
+        assert.equal(
+            getUrlPath({
+                ...url,
+                element: { index: 2, selector: '.card' },
+                step: 'Open menu',
+            }),
+            'news-my-post-Open-menu-card-2.jpeg'
+        );
+        assert.equal(
+            getUrlPath({ ...url, element: { index: 0, selector: '#main' } }),
+            'news-my-post-main.jpeg'
+        );
+    });
+    it('should not add the step if the name includes the {step} placeholder', () => {
+        const url = getUrl({ name: '{step}/{path}' }, pageUrl);
+        assert.equal(
+            getUrlPath({ ...url, step: '1500ms' }),
+            '1500ms/news-my-post.jpeg'
+        );
+    });
+    it('should add the thumbnail suffix after the other suffixes', () => {
+        const url = getUrl({ name: 'about.png' }, pageUrl);
+        assert.equal(
+            getUrlPath({
+                ...url,
+                scheme: 'dark',
+                thumbnail: { suffix: '_400', width: 400 },
+            }),
+            'about-dark_400.png'
+        );
+    });
+});
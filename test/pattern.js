@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { patternToRegExp, urlMatchesPattern } from '../src/lib/pattern.js';
+
+describe('patternToRegExp', () => {
+    it('should match any characters except "/" with "*"', () => {
+        const regex = patternToRegExp('/blog/*');
+        expect(regex.test('/blog/my-post')).to.equal(true);
+        expect(regex.test('/blog/2025/my-post')).to.equal(false);
+    });
+    it('should match any characters with "**"', () => {
+        const regex = patternToRegExp('/blog/**');
+        expect(regex.test('/blog/my-post')).to.equal(true);
+        expect(regex.test('/blog/2025/my-post')).to.equal(true);
+        expect(regex.test('/news/my-post')).to.equal(false);
+    });
+    it('should match a single character with "?"', () => {
+        const regex = patternToRegExp('/page-?');
+        expect(regex.test('/page-1')).to.equal(true);
+        expect(regex.test('/page-10')).to.equal(false);
+    });
+    it('should escape the regular expression characters in a glob', () => {
+        expect(patternToRegExp('/page(1).html').test('/page(1).html')).to.equal(
+            true
+        );
+        expect(patternToRegExp('/a.b').test('/axb')).to.equal(false);
+    });
+    it('should match the whole value of a glob', () => {
+        expect(patternToRegExp('/blog').test('/blog/my-post')).to.equal(false);
+    });
+    it('should use a pattern between "/" characters as a regular expression', () => {
+        const regex = patternToRegExp('/^https:\\/\\/SHOP\\./i');
+        expect(regex.flags).to.equal('i');
+        expect(regex.test('https://shop.mysite.com/')).to.equal(true);
+        expect(regex.test('https://www.mysite.com/')).to.equal(false);
+    });
+});
+
+describe('urlMatchesPattern', () => {
+    const url = 'https://www.mysite.com/blog/my-post?page=2';
+
+    it('should match the URL path', () => {
+        expect(urlMatchesPattern(url, ['/blog/**'])).to.equal(true);
+    });
+    it('should match the full URL', () => {
+        expect(
+            urlMatchesPattern(url, ['https://www.mysite.com/blog/**'])
+        ).to.equal(true);
+    });
+    it('should match if any pattern matches', () => {
+        expect(urlMatchesPattern(url, ['/news/**', '/page=\\d/'])).to.equal(
+            true
+        );
+    });
+    it('should not match if no pattern matches', () => {
+        expect(urlMatchesPattern(url, ['/news/**'])).to.equal(false);
+        expect(urlMatchesPattern(url, [])).to.equal(false);
+    });
+    it('should test a value that is not a full URL as is', () => {
+        expect(urlMatchesPattern('/blog/my-post', ['/blog/*'])).to.equal(true);
+    });
+});
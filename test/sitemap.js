@@ -0,0 +1,130 @@
+import { assert, expect, use } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { createServer } from 'http';
+import { after, before, describe, it } from 'mocha';
+import { gzipSync } from 'zlib';
+
+import { getLocations, getSitemapUrls } from '../src/lib/sitemap.js';
+
+// Set up the chai-as-promised plugin
+use(chaiAsPromised);
+
+// The sitemap fixtures that are served by the local server
+const fixtures = {
+    '/sitemap.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+    <url><loc>https://www.mysite.com/</loc></url>
+    <url><loc>https://www.mysite.com/about</loc></url>
+    <url><loc>https://www.mysite.com/blog/post-1</loc></url>
+    <url><loc>https://www.mysite.com/blog/post-2</loc></url>
+</urlset>`,
+    '/sitemap-index.xml': (baseUrl) => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+    <sitemap><loc>${baseUrl}/sitemap.xml</loc></sitemap>
+    <sitemap><loc>${baseUrl}/sitemap-pages.xml.gz</loc></sitemap>
+    <sitemap><loc>${baseUrl}/sitemap-index.xml</loc></sitemap>
+</sitemapindex>`,
+    '/sitemap-pages.xml.gz': gzipSync(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+    <url><loc>https://www.mysite.com/contact</loc></url>
+    <url><loc>https://www.mysite.com/about</loc></url>
+</urlset>`),
+};
+
+describe('getLocations', () => {
+    it('should get the loc values', () => {
+        const locations = getLocations(fixtures['/sitemap.xml']);
+        expect(locations).to.have.lengthOf(4);
+        assert.equal('https://www.mysite.com/about', locations[1]);
+    });
+    it('should decode entities and CDATA values', () => {
+        const locations = getLocations(
+            '<url><loc>https://www.mysite.com/?a=1&amp;b=2</loc></url><url><loc><![CDATA[https://www.mysite.com/page]]></loc></url>'
+        );
+        assert.deepEqual(
+            ['https://www.mysite.com/?a=1&b=2', 'https://www.mysite.com/page'],
+            locations
+        );
+    });
+});
+
+describe('getSitemapUrls', () => {
+    let server;
+    let baseUrl;
+
+    before((done) => {
+        server = createServer((req, res) => {
+            let fixture = fixtures[req.url];
+            if (typeof fixture === 'function') {
+                fixture = fixture(baseUrl);
+            }
+            if (fixture) {
+                res.writeHead(200);
+                res.end(fixture);
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+        server.listen(0, () => {
+            baseUrl = `http://localhost:${server.address().port}`;
+            done();
+        });
+    });
+
+    after((done) => {
+        server.close(done);
+    });
+
+    it('should get the URLs from a sitemap', async () => {
+        const urls = await getSitemapUrls({
+            url: `${baseUrl}/sitemap.xml`,
+            include: [],
+            exclude: [],
+        });
+        expect(urls).to.have.lengthOf(4);
+    });
+    it('should follow sitemap index files and gzipped sitemaps and remove duplicates', async () => {
+        const urls = await getSitemapUrls({
+            url: `${baseUrl}/sitemap-index.xml`,
+            include: [],
+            exclude: [],
+        });
+        expect(urls).to.have.lengthOf(5);
+        expect(urls).to.include('https://www.mysite.com/contact');
+    });
+    it('should apply the include glob patterns', async () => {
+        const urls = await getSitemapUrls({
+            url: `${baseUrl}/sitemap.xml`,
+            include: ['/blog/*'],
+            exclude: [],
+        });
+        assert.deepEqual(
+            [
+                'https://www.mysite.com/blog/post-1',
+                'https://www.mysite.com/blog/post-2',
+            ],
+            urls
+        );
+    });
+    it('should apply the exclude regular expression patterns', async () => {
+        const urls = await getSitemapUrls({
+            url: `${baseUrl}/sitemap.xml`,
+            include: [],
+            exclude: ['/post-\\d$/'],
+        });
+        assert.deepEqual(
+            ['https://www.mysite.com/', 'https://www.mysite.com/about'],
+            urls
+        );
+    });
+    it('should reject if the sitemap can not be found', async () => {
+        await expect(
+            getSitemapUrls({
+                url: `${baseUrl}/missing.xml`,
+                include: [],
+                exclude: [],
+            })
+        ).to.be.rejectedWith('Status: 404');
+    });
+});
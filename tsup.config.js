@@ -11,7 +11,7 @@ export default defineConfig([
     // ESM build for importing in other projects
     {
         dts: true, // Enable Typescript dts generation
-        entry: ['src/index.ts'],
+        entry: ['src/index.ts', 'src/main.ts'],
         esbuildPlugins: [
             eslint({
                 fix: true